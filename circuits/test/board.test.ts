@@ -0,0 +1,188 @@
+import { assert } from "chai";
+import {
+    Board,
+    Location,
+    MemoryChainState,
+    MoveChainState,
+    MoveRefusal,
+    Player,
+    TerrainUtils,
+    Tile,
+} from "../../game";
+
+let terrainUtils = new TerrainUtils(2, 2, 19, 18, 17);
+
+const A = new Player("A", "0xa");
+const B = new Player("B", "0xb");
+const from: Location = { r: 5, c: 5 };
+const to: Location = { r: 5, c: 6 };
+const enemy: Location = { r: 6, c: 5 };
+
+/*
+ * Board where A holds a city center at from, next to an unowned tile at to and
+ * B's tile at enemy.
+ */
+function newBoard(): Board {
+    const b = new Board(terrainUtils);
+    b.setTile(Tile.spawn(A, from, 10, 1));
+    b.setTile(Tile.genOwned(Tile.UNOWNED, to, 0, 0, 0, Tile.BARE_TILE));
+    b.setTile(Tile.genOwned(B, enemy, 3, 2, 0, Tile.BARE_TILE));
+    return b;
+}
+
+const chainState: MoveChainState = {
+    currentWaterInterval: 0,
+    fromCityTroops: 10,
+    toCityTroops: 0,
+};
+
+describe("Unit tests for Board.readMoveChainState()", () => {
+    it("reads the interval and both cities' troops", async () => {
+        const chain = new MemoryChainState(4);
+        chain.cityCenterTroops.set(1, 10);
+        chain.cityCenterTroops.set(2, 7);
+
+        const b = newBoard();
+        assert.deepEqual(await b.readMoveChainState(from, enemy, chain), {
+            currentWaterInterval: 4,
+            fromCityTroops: 10,
+            toCityTroops: 7,
+        });
+    });
+
+    it("fails if a location is off the board", async () => {
+        const b = newBoard();
+        let error: Error | undefined;
+        try {
+            await b.readMoveChainState(
+                from,
+                { r: -1, c: 5 },
+                new MemoryChainState()
+            );
+        } catch (e) {
+            error = e as Error;
+        }
+        assert.match(error!.message, /off the board/);
+    });
+});
+
+describe("Unit tests for Board.planMove()", () => {
+    it("moves all but one troop by default", () => {
+        const plan = newBoard().planMove(from, to, undefined, chainState);
+        assert.equal(plan.uFrom.resources, 1);
+        assert.equal(plan.uTo.resources, 9);
+        assert.equal(plan.uTo.owner.address, A.address);
+        assert.equal(plan.circuitInput.numTroopsMoved, "9");
+    });
+
+    it("passes checkMove onto an unowned tile", () => {
+        const b = newBoard();
+        const plan = b.planMove(from, to, 4, chainState);
+        const refusal = b.checkMove(
+            A.address,
+            b.getTile(from, BigInt(0))!,
+            b.getTile(to, BigInt(0))!,
+            plan.uFrom,
+            plan.uTo,
+            10,
+            0,
+            0
+        );
+        assert.isUndefined(refusal);
+    });
+
+    it("passes checkMove onto an enemy tile", () => {
+        const b = newBoard();
+        const plan = b.planMove(from, enemy, undefined, chainState);
+        assert.equal(plan.uTo.owner.address, A.address);
+        assert.equal(plan.uTo.resources, 6);
+        assert.equal(plan.circuitInput.enemyLoss, "3");
+
+        const refusal = b.checkMove(
+            A.address,
+            b.getTile(from, BigInt(0))!,
+            b.getTile(enemy, BigInt(0))!,
+            plan.uFrom,
+            plan.uTo,
+            10,
+            0,
+            0
+        );
+        assert.isUndefined(refusal);
+    });
+
+    it("fails if no troop is mobilized", () => {
+        assert.throws(
+            () => newBoard().planMove(from, to, 0, chainState),
+            /at least 1 troop/
+        );
+    });
+
+    it("fails if every troop is mobilized", () => {
+        assert.throws(
+            () => newBoard().planMove(from, to, 10, chainState),
+            /more than 9 troops/
+        );
+    });
+
+    it("fails if a location is off the board", () => {
+        assert.throws(
+            () => newBoard().planMove(from, { r: 5, c: -1 }, 1, chainState),
+            /off the board/
+        );
+    });
+});
+
+describe("Unit tests for Board.checkMove()", () => {
+    let b: Board;
+    let tFrom: Tile;
+    let tTo: Tile;
+    let uFrom: Tile;
+    let uTo: Tile;
+
+    beforeEach(() => {
+        b = newBoard();
+        tFrom = b.getTile(from, BigInt(0))!;
+        tTo = b.getTile(to, BigInt(0))!;
+        ({ uFrom, uTo } = b.planMove(from, to, 4, chainState));
+    });
+
+    function check(mover: string = A.address) {
+        return b.checkMove(mover, tFrom, tTo, uFrom, uTo, 10, 0, 0);
+    }
+
+    it("fails if the tiles aren't adjacent", () => {
+        uTo.loc = { r: 5, c: 7 };
+        assert.equal(check(), MoveRefusal.NotAdjacent);
+    });
+
+    it("fails if a tile is off the board", () => {
+        uTo.loc = { r: -1, c: 5 };
+        assert.equal(check(), MoveRefusal.OutOfBounds);
+    });
+
+    it("fails if the mover doesn't own the from tile", () => {
+        assert.equal(check(B.address), MoveRefusal.NotOwner);
+    });
+
+    it("fails if the interval is ahead of the chain", () => {
+        uFrom.latestUpdateInterval = 1;
+        uTo.latestUpdateInterval = 1;
+        assert.equal(check(), MoveRefusal.StaleInterval);
+    });
+
+    it("fails if no troop is mobilized", () => {
+        uFrom.resources = 10;
+        assert.equal(check(), MoveRefusal.BadMobilization);
+    });
+
+    it("fails if the from tile changes city", () => {
+        uFrom.cityId = 2;
+        assert.equal(check(), MoveRefusal.FromMismatch);
+    });
+
+    it("fails if troops appear on the to tile", () => {
+        uTo.resources++;
+        assert.equal(check(), MoveRefusal.ToMismatch);
+    });
+});
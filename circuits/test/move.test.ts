@@ -484,6 +484,171 @@ describe("Unit tests for CheckRsrc()", () => {
         assert.equal(w[1], BigInt(1));
         await circuit.checkConstraints(w);
     });
+
+    it("fails if a partial mobilization doesn't add up (onto unowned)", async () => {
+        const p1 = new Player("A", "");
+        const l1 = { r: 0, c: 0 };
+        const p2 = Tile.UNOWNED;
+        const l2 = { r: 1, c: 0 };
+
+        const w = await circuit.calculateWitness({
+            currentWaterInterval: "0",
+            ontoSelfOrUnowned: "1",
+            fromCityTroops: "10",
+            toCityTroops: "0",
+            tFrom: new Tile(
+                p1,
+                l1,
+                10,
+                BigInt(0),
+                1,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            tTo: new Tile(
+                p2,
+                l2,
+                0,
+                BigInt(0),
+                0,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            uFrom: new Tile(
+                p1,
+                l1,
+                7,
+                BigInt(0),
+                1,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            uTo: new Tile(
+                p1,
+                l2,
+                4,
+                BigInt(0),
+                1,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            fromUpdatedTroops: "10",
+            toUpdatedTroops: "0",
+            ontoMoreOrEq: "0",
+        });
+        assert.equal(w[1], BigInt(0));
+        await circuit.checkConstraints(w);
+    });
+
+    it("passes if part of an army moves onto an unowned tile", async () => {
+        const p1 = new Player("A", "");
+        const l1 = { r: 0, c: 0 };
+        const p2 = Tile.UNOWNED;
+        const l2 = { r: 1, c: 0 };
+
+        const w = await circuit.calculateWitness({
+            currentWaterInterval: "0",
+            ontoSelfOrUnowned: "1",
+            fromCityTroops: "10",
+            toCityTroops: "0",
+            tFrom: new Tile(
+                p1,
+                l1,
+                10,
+                BigInt(0),
+                1,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            tTo: new Tile(
+                p2,
+                l2,
+                0,
+                BigInt(0),
+                0,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            uFrom: new Tile(
+                p1,
+                l1,
+                6,
+                BigInt(0),
+                1,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            uTo: new Tile(
+                p1,
+                l2,
+                4,
+                BigInt(0),
+                1,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            fromUpdatedTroops: "10",
+            toUpdatedTroops: "0",
+            ontoMoreOrEq: "0",
+        });
+        assert.equal(w[1], BigInt(1));
+        await circuit.checkConstraints(w);
+    });
+
+    it("passes if part of an army attacks a stronger enemy tile", async () => {
+        const p1 = new Player("A", "");
+        const l1 = { r: 0, c: 0 };
+        const p2 = new Player("B", "");
+        const l2 = { r: 1, c: 0 };
+
+        const w = await circuit.calculateWitness({
+            currentWaterInterval: "0",
+            ontoSelfOrUnowned: "0",
+            fromCityTroops: "10",
+            toCityTroops: "8",
+            tFrom: new Tile(
+                p1,
+                l1,
+                10,
+                BigInt(0),
+                1,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            tTo: new Tile(
+                p2,
+                l2,
+                8,
+                BigInt(0),
+                2,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            uFrom: new Tile(
+                p1,
+                l1,
+                7,
+                BigInt(0),
+                1,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            uTo: new Tile(
+                p2,
+                l2,
+                5,
+                BigInt(0),
+                2,
+                0,
+                Tile.BARE_TILE
+            ).toCircuitInput(),
+            fromUpdatedTroops: "10",
+            toUpdatedTroops: "8",
+            ontoMoreOrEq: "1",
+        });
+        assert.equal(w[1], BigInt(1));
+        await circuit.checkConstraints(w);
+    });
 });
 
 describe("Unit tests for CheckTroopUpdates()", () => {
@@ -0,0 +1,843 @@
+import dotenv from "dotenv";
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import { io, Socket } from "socket.io-client";
+import {
+    Address,
+    Chain,
+    createPublicClient,
+    createWalletClient,
+    defineChain,
+    getContract,
+    Hash,
+    hexToSignature,
+    http as httpTransport,
+    PublicClient,
+    Transport,
+    WalletClient,
+} from "viem";
+import { PrivateKeyAccount, privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import IWorldAbi from "../contracts/out/IWorld.sol/IWorld.json" assert { type: "json" };
+import worlds from "../contracts/worlds.json" assert { type: "json" };
+import {
+    ClientToServerEvents,
+    RequestError,
+    ServerToClientEvents,
+} from "./socket";
+import {
+    Board,
+    ChainStateReader,
+    ContractChainState,
+    createProver,
+    GameEvent,
+    Groth16Proof,
+    Player,
+    ProofResult,
+    ProveProgress,
+    Prover,
+    ProverBackend,
+    ProverStatus,
+    Schema,
+    TerrainUtils,
+    Tile,
+    TileJSON,
+    Utils,
+    Location,
+} from "@seismic-systems/ns-fow-game";
+dotenv.config({ path: "../.env" });
+
+export const redstone = defineChain({
+    name: "Redstone Testnet",
+    id: 901,
+    network: "redstone-testnet",
+    nativeCurrency: { decimals: 18, name: "Ether", symbol: "ETH" },
+    rpcUrls: {
+        default: {
+            http: ["https://redstone.linfra.xyz/"],
+            webSocket: ["wss://redstone.linfra.xyz/"],
+        },
+        public: {
+            http: ["https://redstone.linfra.xyz/"],
+            webSocket: ["wss://redstone.linfra.xyz/"],
+        },
+    },
+});
+
+export type GameClientConfig = {
+    privateKey: string;
+    symbol: string;
+    enclaveUrl: string;
+    rpcUrl?: string;
+    chain: Chain;
+    terrainUtils: TerrainUtils;
+    // Proves the player's spawns and moves
+    prover: Prover;
+    // Where the board is saved between runs, not saved if unset
+    snapshotPath?: string;
+};
+
+/*
+ * Events a GameClient emits to bots and UIs built on top of it.
+ */
+export interface GameClientEvents {
+    // Enclave revealed the contents of a tile, already applied to the board
+    tileUpdate: (tile: Tile) => void;
+    // Player has no cities and should (re)try spawning
+    trySpawn: () => void;
+    // Player is in the game, and these locations are visible to them
+    login: (locs: Location[]) => void;
+    // Move was applied to the local board, before it is signed or submitted
+    moveProposed: (uFrom: Tile, uTo: Tile) => void;
+    // Proof of a spawn or move to loc went through another step
+    proofProgress: (loc: Location, progress: ProveProgress) => void;
+    // Move proof is ready, provingTime ms after the move was proposed
+    moveProven: (provingTime: number, proverStatus: ProverStatus) => void;
+    moveSubmitted: (tx: string) => void;
+    // Something happened to one of the player's tiles, e.g. it was captured
+    gameEvent: (ev: GameEvent) => void;
+    disconnect: () => void;
+}
+
+type SpawnSignature = {
+    virt: TileJSON;
+    spawn: TileJSON;
+    sig: string;
+    blockNumber: string;
+    virtPrf: Groth16Proof;
+    virtPubSigs: string[];
+    proverStatus: ProverStatus;
+};
+
+type MoveSignature = {
+    sig: string;
+    blockNumber: string;
+    virtPrf: Groth16Proof;
+    virtPubSigs: string[];
+    proverStatus: ProverStatus;
+};
+
+/*
+ * A move whose new states are known and applied to the local board, but that
+ * may not be proven or included yet.
+ */
+export type PreparedMove = {
+    uFrom: Tile;
+    uTo: Tile;
+    proof: Promise<ProofResult>;
+    // Cancels the proof, e.g. when the move is rolled back
+    abortProof: AbortController;
+    // Local tiles before the move, undefined if they were never revealed
+    prevFrom?: Tile;
+    prevTo?: Tile;
+    startTime: number;
+};
+
+type Pending<T> = {
+    resolve: (value: T) => void;
+    reject: (reason: Error) => void;
+};
+
+export declare interface GameClient {
+    on<E extends keyof GameClientEvents>(
+        event: E,
+        listener: GameClientEvents[E]
+    ): this;
+    once<E extends keyof GameClientEvents>(
+        event: E,
+        listener: GameClientEvents[E]
+    ): this;
+    emit<E extends keyof GameClientEvents>(
+        event: E,
+        ...args: Parameters<GameClientEvents[E]>
+    ): boolean;
+}
+
+/*
+ * Headless client for the game. Wraps the enclave socket protocol, proof
+ * generation and chain submission behind async methods, and keeps the player's
+ * local belief of the board up to date as the enclave reveals tiles.
+ */
+export class GameClient extends EventEmitter {
+    static SAVE_DELAY_MS: number = 1000;
+
+    config: GameClientConfig;
+    player: Player;
+
+    /*
+     * Client's local belief on game state stored in Board object.
+     */
+    board: Board;
+
+    walletClient: WalletClient<Transport, Chain, PrivateKeyAccount>;
+    publicClient: PublicClient;
+    nStates: any;
+
+    /*
+     * Chain values moves are planned from, read through nStates.
+     */
+    chainState: ChainStateReader;
+    socket: Socket<ServerToClientEvents, ClientToServerEvents>;
+
+    /*
+     * Whether player has been spawned in.
+     */
+    isSpawned: boolean = false;
+
+    /*
+     * Last block when player requested an enclave signature. Player's cannot
+     * submit more than one move in a block.
+     */
+    latestMoveBlock: bigint = 0n;
+
+    /*
+     * Requests awaiting an enclave response. The enclave answers requests of
+     * each kind in order, one at a time.
+     */
+    private pendingLogin?: Pending<boolean>;
+    private pendingSpawn?: Pending<SpawnSignature>;
+    private pendingMove?: Pending<MoveSignature>;
+
+    // Debounced board save, see scheduleSave()
+    private saveTimer?: NodeJS.Timeout;
+
+    constructor(config: GameClientConfig) {
+        super();
+        this.config = config;
+
+        const account = privateKeyToAccount(config.privateKey as Address);
+        const worldsTyped = worlds as unknown as {
+            [key: number]: { address: string; blockNumber: bigint };
+        };
+        const worldAddress = worldsTyped[config.chain.id].address as Address;
+
+        this.walletClient = createWalletClient({
+            account,
+            chain: config.chain,
+            transport: httpTransport(config.rpcUrl),
+        });
+        this.publicClient = createPublicClient({
+            chain: config.chain,
+            transport: httpTransport(config.rpcUrl),
+            pollingInterval: 100,
+        });
+        this.nStates = getContract({
+            abi: IWorldAbi.abi,
+            address: worldAddress,
+            walletClient: this.walletClient,
+            publicClient: this.publicClient,
+        });
+        this.chainState = new ContractChainState(this.nStates);
+
+        // Has no blind until connect()
+        this.player = new Player(config.symbol, account.address);
+
+        this.board = this.loadBoard();
+        if (config.snapshotPath) {
+            this.on("tileUpdate", () => this.scheduleSave());
+            this.on("moveProposed", () => this.scheduleSave());
+        }
+
+        this.socket = io(config.enclaveUrl, { autoConnect: false });
+        this.attachSocketHandlers();
+    }
+
+    /*
+     * Client configured from .env, as used by the TTY and dummy clients.
+     */
+    static fromEnv(privateKey: string, symbol: string): GameClient {
+        const address = privateKeyToAccount(privateKey as Address).address;
+        const snapshotDir = process.env.BOARD_SNAPSHOT_DIR;
+        return new GameClient({
+            privateKey,
+            symbol,
+            enclaveUrl: `${process.env.ENCLAVE_ADDRESS}:${process.env.ENCLAVE_SERVER_PORT}`,
+            rpcUrl: process.env.RPC_URL,
+            chain: process.env.CHAIN === "redstone" ? redstone : foundry,
+            terrainUtils: new TerrainUtils(
+                Number(process.env.PERLIN_KEY),
+                Number(process.env.PERLIN_SCALE),
+                Number(process.env.PERLIN_THRESHOLD_BONUS_TROOPS),
+                Number(process.env.PERLIN_THRESHOLD_HILL),
+                Number(process.env.PERLIN_THRESHOLD_WATER),
+                TerrainUtils.boundsFromEnv(process.env)
+            ),
+            prover: createProver(
+                process.env.PROVER || ProverBackend.Snarkjs,
+                process.env.CIRCUITS_DIR,
+                undefined,
+                parseInt(process.env.PROVER_WORKERS || "1", 10)
+            ),
+            snapshotPath: snapshotDir
+                ? path.join(snapshotDir, `${address}.json`)
+                : undefined,
+        });
+    }
+
+    get address(): Address {
+        return this.walletClient.account.address;
+    }
+
+    /*
+     * Derive the player's blind and open the socket connection to the enclave.
+     */
+    public async connect(): Promise<void> {
+        // Same blind on every run, so a restarted client can still spawn
+        this.player = await Player.fromWallet(
+            this.config.symbol,
+            this.address,
+            (message: string) => this.walletClient.signMessage({ message })
+        );
+
+        return new Promise((resolve, reject) => {
+            this.socket.once("connect", () => resolve());
+            this.socket.once("connect_error", reject);
+            this.socket.connect();
+        });
+    }
+
+    public disconnect() {
+        this.socket.disconnect();
+    }
+
+    /*
+     * Authenticate with the enclave by signing its challenge. Resolves to true
+     * if the player is already spawned, in which case visible tiles are
+     * decrypted, or false if the player should spawn.
+     */
+    public login(): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.pendingLogin = { resolve, reject };
+            this.socket.emit("challenge");
+        });
+    }
+
+    /*
+     * Commit on chain to spawning at l. The commitment hides l behind the
+     * player's blind, and the contract only accepts a spawn proof that opens
+     * it, so a spawn signature is of no use to anyone watching for it. A
+     * commitment to another location, left by an attempt the enclave refused,
+     * is withdrawn first.
+     */
+    public async commitToSpawn(l: Location) {
+        const hBlindLoc = BigInt(this.player.hBlindLoc(l));
+        const committed: bigint = await this.nStates.read.getSpawnCommitment([
+            this.address,
+        ]);
+        if (committed === hBlindLoc) {
+            return;
+        }
+        if (committed !== BigInt(0)) {
+            await this.waitForSuccess(
+                await this.nStates.write.clearSpawnCommitment()
+            );
+        }
+        await this.waitForSuccess(
+            await this.nStates.write.commitToSpawn([hBlindLoc])
+        );
+    }
+
+    /*
+     * Spawn at location l. Commits to l on chain, asks the enclave for a
+     * signed spawn tile, proves the spawn ZKP and submits it to chain.
+     * Resolves to the transaction hash. The spawn only succeeds once the
+     * enclave sees it finalized, which is signaled by a login event, or a
+     * trySpawn event if it failed.
+     */
+    public async spawn(l: Location): Promise<string> {
+        if (!this.board.inBounds(l.r, l.c)) {
+            throw new Error("Cannot spawn off the board.");
+        }
+
+        await this.commitToSpawn(l);
+
+        const spawnSigPromise = new Promise<SpawnSignature>(
+            (resolve, reject) => {
+                this.pendingSpawn = { resolve, reject };
+            }
+        );
+        this.socket.emit(
+            "getSpawnSignature",
+            this.player.symbol,
+            Utils.stringifyLocation(l)
+        );
+        const res = await spawnSigPromise;
+
+        if (res.proverStatus === ProverStatus.Incomplete) {
+            throw new Error("Enclave's prover failed, canceled spawn");
+        }
+        Schema.groth16Proof(res.virtPrf, "virtPrf");
+        Schema.publicSignals(res.virtPubSigs, "virtPubSigs");
+
+        const virtTile = Tile.fromJSON(res.virt);
+        const spawnTile = Tile.fromJSON(res.spawn);
+
+        const virtFormattedProof = await Utils.exportCallDataGroth16(
+            res.virtPrf,
+            res.virtPubSigs
+        );
+        const [virtInputs, virtProof] =
+            Utils.unpackVirtualInputs(virtFormattedProof);
+
+        const spawnRes = await Tile.spawnZKP(
+            this.player,
+            virtTile,
+            spawnTile,
+            this.config.prover,
+            {
+                onProgress: (progress) =>
+                    this.emit("proofProgress", l, progress),
+            }
+        );
+
+        const spawnFormattedProof = await Utils.exportCallDataGroth16(
+            spawnRes.proof,
+            spawnRes.publicSignals
+        );
+        const [spawnInputs, spawnProof] =
+            Utils.unpackSpawnInputs(spawnFormattedProof);
+
+        return await this.nStates.write.spawn([
+            spawnInputs,
+            spawnProof,
+            virtInputs,
+            virtProof,
+            this.formatEnclaveSig(res.sig, res.blockNumber),
+        ]);
+    }
+
+    /*
+     * Move nMobilize troops from one tile to a neighboring one, or all but one
+     * troop if not specified. Proves the move ZKP while the enclave signs the
+     * new states, then submits the move to chain. Resolves to the transaction
+     * hash once the move is included, and rolls back the local board if it
+     * isn't.
+     */
+    public async move(
+        from: Location,
+        to: Location,
+        nMobilize?: number
+    ): Promise<string> {
+        const mv = await this.prepareMove(from, to, nMobilize);
+        try {
+            return await this.submitMove(mv);
+        } catch (error) {
+            this.rollbackMove(mv);
+            throw error;
+        }
+    }
+
+    /*
+     * Construct the new states of a move from the local board and start
+     * proving it. The new states are applied to the local board right away, so
+     * a following move can be prepared on top of this one before it lands.
+     */
+    public async prepareMove(
+        from: Location,
+        to: Location,
+        nMobilize?: number
+    ): Promise<PreparedMove> {
+        if (!this.board.inBounds(to.r, to.c)) {
+            throw new Error("Cannot move off the board.");
+        }
+
+        const startTime = Date.now();
+        const abortProof = new AbortController();
+        const [uFrom, uTo, proof] = await this.board.moveZKP(
+            from,
+            to,
+            this.chainState,
+            nMobilize,
+            this.config.prover,
+            {
+                signal: abortProof.signal,
+                onProgress: (progress) =>
+                    this.emit("proofProgress", to, progress),
+            }
+        );
+        // Proofs of moves that are rolled back before submission are never
+        // awaited, so their cancellation must not go unhandled
+        proof.catch(() => {});
+
+        const prevFrom = this.board.t.get(Utils.stringifyLocation(from));
+        const prevTo = this.board.t.get(Utils.stringifyLocation(to));
+        this.board.t.set(Utils.stringifyLocation(from), uFrom);
+        this.board.t.set(Utils.stringifyLocation(to), uTo);
+        this.emit("moveProposed", uFrom, uTo);
+
+        return {
+            uFrom,
+            uTo,
+            proof,
+            abortProof,
+            prevFrom,
+            prevTo,
+            startTime,
+        };
+    }
+
+    /*
+     * Get the enclave's signature for a prepared move in a block after the
+     * player's last one, then submit it to chain. The move's predecessor must
+     * already be included, since its uTo is this move's tFrom. Resolves to the
+     * transaction hash once the move is included.
+     */
+    public async submitMove(mv: PreparedMove): Promise<string> {
+        await this.waitForMoveBlock();
+
+        const moveSigPromise = new Promise<MoveSignature>((resolve, reject) => {
+            this.pendingMove = { resolve, reject };
+        });
+
+        // Alert enclave of intended move
+        this.socket.emit(
+            "getMoveSignature",
+            mv.uFrom.toJSON(),
+            mv.uTo.toJSON(),
+            this.player.getBlind().toString()
+        );
+
+        const [moveRes, moveSig] = await Promise.all([
+            mv.proof,
+            moveSigPromise,
+        ]);
+        if (moveSig.proverStatus === ProverStatus.Incomplete) {
+            throw new Error("Enclave's prover failed, canceled move");
+        }
+        Schema.groth16Proof(moveSig.virtPrf, "virtPrf");
+        Schema.publicSignals(moveSig.virtPubSigs, "virtPubSigs");
+
+        const moveFormattedProof = await Utils.exportCallDataGroth16(
+            moveRes.proof,
+            moveRes.publicSignals
+        );
+        const virtualFormattedProof = await Utils.exportCallDataGroth16(
+            moveSig.virtPrf,
+            moveSig.virtPubSigs
+        );
+        const [moveInputs, moveProof] =
+            Utils.unpackMoveInputs(moveFormattedProof);
+        const [virtInputs, virtProof] = Utils.unpackVirtualInputs(
+            virtualFormattedProof
+        );
+
+        const provingTime = Date.now() - mv.startTime;
+        this.emit("moveProven", provingTime, moveRes.proverStatus);
+        this.reportProvingTime(provingTime);
+
+        const tx = await this.nStates.write.move([
+            moveInputs,
+            moveProof,
+            virtInputs,
+            virtProof,
+            this.formatEnclaveSig(moveSig.sig, moveSig.blockNumber),
+        ]);
+        this.emit("moveSubmitted", tx);
+
+        await this.waitForSuccess(tx);
+        return tx;
+    }
+
+    /*
+     * Wait for a transaction to be included. Throws an error if it reverted.
+     */
+    private async waitForSuccess(tx: Hash) {
+        const receipt = await this.publicClient.waitForTransactionReceipt({
+            hash: tx,
+        });
+        if (receipt.status !== "success") {
+            throw new Error(`Transaction ${tx} reverted`);
+        }
+    }
+
+    /*
+     * Undo a prepared move's update to the local board and cancel its proof if
+     * it's still running, then ask the enclave for the tiles in case they
+     * changed in the meantime.
+     */
+    public rollbackMove(mv: PreparedMove) {
+        mv.abortProof.abort();
+        for (const [u, prev] of [
+            [mv.uTo, mv.prevTo],
+            [mv.uFrom, mv.prevFrom],
+        ] as [Tile, Tile | undefined][]) {
+            const key = Utils.stringifyLocation(u.loc);
+            if (prev) {
+                this.board.t.set(key, prev);
+            } else {
+                this.board.t.delete(key);
+            }
+            this.decrypt(u.loc);
+        }
+    }
+
+    /*
+     * Write the board to config.snapshotPath, keys included since they are
+     * needed to move. Written to a temporary file first so a crash mid-write
+     * leaves the previous snapshot intact.
+     */
+    public saveBoard() {
+        if (!this.config.snapshotPath) {
+            return;
+        }
+        const tmpPath = `${this.config.snapshotPath}.tmp`;
+        try {
+            fs.mkdirSync(path.dirname(tmpPath), { recursive: true });
+            fs.writeFileSync(tmpPath, JSON.stringify(this.board.toSnapshot()), {
+                mode: 0o600,
+            });
+            fs.renameSync(tmpPath, this.config.snapshotPath);
+        } catch (error) {
+            console.error("- Error saving board snapshot: ", error);
+        }
+    }
+
+    /*
+     * Register a listener for tiles the enclave reveals.
+     */
+    public onTileUpdate(listener: (tile: Tile) => void): this {
+        return this.on("tileUpdate", listener);
+    }
+
+    /*
+     * Ask the enclave to reveal the tile at l. Responses arrive as tileUpdate
+     * events.
+     */
+    public decrypt(l: Location) {
+        this.socket.emit("decrypt", Utils.stringifyLocation(l));
+    }
+
+    private attachSocketHandlers() {
+        this.socket.on("challengeResponse", async (challenge: string) => {
+            const sig = await this.walletClient.signMessage({
+                message: challenge,
+            });
+            this.socket.emit("login", sig);
+        });
+
+        this.socket.on("loginResponse", (locs: string[]) => {
+            this.isSpawned = true;
+
+            const visibleLocs = this.decryptAll(locs);
+            this.pendingLogin?.resolve(true);
+            this.pendingLogin = undefined;
+            this.emit("login", visibleLocs);
+        });
+
+        this.socket.on("trySpawn", () => {
+            if (this.pendingLogin) {
+                this.pendingLogin.resolve(false);
+                this.pendingLogin = undefined;
+            } else if (this.pendingSpawn) {
+                this.pendingSpawn.reject(
+                    new Error("Tile cannot be spawned on")
+                );
+                this.pendingSpawn = undefined;
+            } else {
+                // Spawn attempt finalized on chain but failed
+                this.emit("trySpawn");
+            }
+        });
+
+        this.socket.on(
+            "spawnSignatureResponse",
+            (
+                virt: TileJSON,
+                spawn: TileJSON,
+                sig: string,
+                blockNumber: string,
+                virtPrf: Groth16Proof,
+                virtPubSigs: string[],
+                proverStatus: ProverStatus
+            ) => {
+                this.pendingSpawn?.resolve({
+                    virt,
+                    spawn,
+                    sig,
+                    blockNumber,
+                    virtPrf,
+                    virtPubSigs,
+                    proverStatus,
+                });
+                this.pendingSpawn = undefined;
+            }
+        );
+
+        this.socket.on(
+            "moveSignatureResponse",
+            (
+                sig: string,
+                blockNumber: string,
+                virtPrf: Groth16Proof,
+                virtPubSigs: string[],
+                proverStatus: ProverStatus
+            ) => {
+                this.pendingMove?.resolve({
+                    sig,
+                    blockNumber,
+                    virtPrf,
+                    virtPubSigs,
+                    proverStatus,
+                });
+                this.pendingMove = undefined;
+            }
+        );
+
+        this.socket.on("decryptResponse", (t: TileJSON) => {
+            try {
+                Schema.tileJSON(t);
+            } catch (error) {
+                console.error("- Malformed tile from enclave: ", error);
+                return;
+            }
+            const tl = Tile.fromJSON(t);
+            this.board.t.set(Utils.stringifyLocation(tl.loc), tl);
+            this.emit("tileUpdate", tl);
+        });
+
+        this.socket.on("updateDisplay", (locs: string[]) => {
+            this.decryptAll(locs);
+        });
+
+        this.socket.on("gameEvents", (events: GameEvent[]) => {
+            for (const ev of events) {
+                this.emit("gameEvent", ev);
+            }
+        });
+
+        // Enclave refused a request, so fail whichever one was waiting on it
+        this.socket.on("requestError", (err: RequestError) => {
+            const reason = new Error(err.reason);
+            if (err.event === "challenge" || err.event === "login") {
+                this.pendingLogin?.reject(reason);
+                this.pendingLogin = undefined;
+            } else if (err.event === "getSpawnSignature") {
+                this.pendingSpawn?.reject(reason);
+                this.pendingSpawn = undefined;
+            } else if (err.event === "getMoveSignature") {
+                this.pendingMove?.reject(reason);
+                this.pendingMove = undefined;
+            } else {
+                console.error(`- Enclave refused ${err.event}: ${err.reason}`);
+            }
+        });
+
+        this.socket.on("disconnect", () => {
+            const err = new Error("Disconnected from enclave");
+            this.pendingLogin?.reject(err);
+            this.pendingSpawn?.reject(err);
+            this.pendingMove?.reject(err);
+            this.pendingLogin = undefined;
+            this.pendingSpawn = undefined;
+            this.pendingMove = undefined;
+            this.emit("disconnect");
+        });
+    }
+
+    /*
+     * Board saved by a previous run if there is one, otherwise a fresh board
+     * covered in fog.
+     */
+    private loadBoard(): Board {
+        const snapshotPath = this.config.snapshotPath;
+        if (snapshotPath && fs.existsSync(snapshotPath)) {
+            try {
+                return Board.fromSnapshot(
+                    JSON.parse(fs.readFileSync(snapshotPath, "utf8")),
+                    this.config.terrainUtils
+                );
+            } catch (error) {
+                console.error("- Ignoring unreadable board snapshot: ", error);
+            }
+        }
+
+        const board = new Board(this.config.terrainUtils);
+        board.seed();
+        return board;
+    }
+
+    /*
+     * Save the board once a burst of updates, such as a login's decryptions,
+     * has settled.
+     */
+    private scheduleSave() {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(
+            () => this.saveBoard(),
+            GameClient.SAVE_DELAY_MS
+        );
+    }
+
+    /*
+     * Request decryption of every location in locs. Returns the parsed
+     * locations.
+     */
+    private decryptAll(locs: string[]): Location[] {
+        let parsed: Location[] = [];
+        for (const locString of locs) {
+            const l = Utils.unstringifyLocation(locString);
+            if (l) {
+                this.decrypt(l);
+                parsed.push(l);
+            }
+        }
+        return parsed;
+    }
+
+    private formatEnclaveSig(sig: string, blockNumber: string) {
+        const unpackedSig = hexToSignature(sig as Address);
+        return {
+            v: unpackedSig.v,
+            r: unpackedSig.r,
+            s: unpackedSig.s,
+            b: blockNumber,
+        };
+    }
+
+    /*
+     * Wait until the chain is past the block of the player's last enclave
+     * signature, then claim the current block for the next one.
+     */
+    private async waitForMoveBlock() {
+        let currentBlockHeight = await this.publicClient.getBlockNumber();
+        while (currentBlockHeight <= this.latestMoveBlock) {
+            await Utils.sleep(this.publicClient.pollingInterval);
+            currentBlockHeight = await this.publicClient.getBlockNumber();
+        }
+        this.latestMoveBlock = currentBlockHeight;
+    }
+
+    /*
+     * Send provingTime to enclave.
+     */
+    private reportProvingTime(provingTime: number) {
+        this.signedPost("/provingTime", { provingTime }).catch(() => {});
+    }
+
+    /*
+     * POST body to one of the enclave's signed routes. Fetches a fresh
+     * challenge and signs it along with the request, the same way the socket
+     * login does. The message layout must match HTTPAuth.message() in the
+     * enclave.
+     */
+    private async signedPost(path: string, body: object): Promise<Response> {
+        const challengeRes = await fetch(`${this.config.enclaveUrl}/challenge`);
+        const { challenge } = await challengeRes.json();
+
+        const rawBody = JSON.stringify(body);
+        const signature = await this.walletClient.signMessage({
+            message: `${challenge}\nPOST ${path}\n${rawBody}`,
+        });
+
+        return await fetch(`${this.config.enclaveUrl}${path}`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "x-challenge": challenge,
+                "x-signature": signature,
+            },
+            body: rawBody,
+        });
+    }
+}
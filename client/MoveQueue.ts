@@ -0,0 +1,193 @@
+import { EventEmitter } from "events";
+import { Location } from "@seismic-systems/ns-fow-game";
+import { GameClient, PreparedMove } from "./GameClient";
+
+type QueuedMove = {
+    from: Location;
+    to: Location;
+    nMobilize?: number;
+};
+
+/*
+ * Events a MoveQueue emits as moves land or fail.
+ */
+export interface MoveQueueEvents {
+    // Move was included on chain
+    moveConfirmed: (tx: string, mv: PreparedMove) => void;
+    // Move at from failed, and it and every move queued after it were dropped
+    moveFailed: (error: unknown, from: Location) => void;
+}
+
+export declare interface MoveQueue {
+    on<E extends keyof MoveQueueEvents>(
+        event: E,
+        listener: MoveQueueEvents[E]
+    ): this;
+    emit<E extends keyof MoveQueueEvents>(
+        event: E,
+        ...args: Parameters<MoveQueueEvents[E]>
+    ): boolean;
+}
+
+/*
+ * Pipelines a player's moves. A move is prepared and starts proving as soon as
+ * the move before it is prepared, on top of the local board that already
+ * reflects it. Moves are then signed and submitted one per block, each after
+ * its predecessor is included. If a move fails, it and every move built on it
+ * are rolled back from the local board and the queue is cleared.
+ */
+export class MoveQueue extends EventEmitter {
+    client: GameClient;
+
+    /*
+     * Moves that haven't been prepared yet, in order.
+     */
+    private queued: QueuedMove[] = [];
+
+    /*
+     * Moves applied to the local board that aren't included yet, in order.
+     */
+    private inFlight: PreparedMove[] = [];
+
+    private preparing: boolean = false;
+    private submitting: boolean = false;
+
+    /*
+     * Bumped whenever the queue is cleared, so preparations that were started
+     * before then are discarded.
+     */
+    private generation: number = 0;
+
+    constructor(client: GameClient) {
+        super();
+        this.client = client;
+    }
+
+    /*
+     * Number of moves that are not yet included.
+     */
+    get length(): number {
+        return this.queued.length + this.inFlight.length;
+    }
+
+    /*
+     * Queue a move of nMobilize troops, or all but one if not specified.
+     */
+    public enqueue(from: Location, to: Location, nMobilize?: number) {
+        this.queued.push({ from, to, nMobilize });
+        this.prepareLoop();
+    }
+
+    /*
+     * Queue moves along path, where path[0] is the tile the army starts on.
+     * Only the first move is limited to nMobilize troops, the rest of the path
+     * carries whatever arrived.
+     */
+    public enqueuePath(path: Location[], nMobilize?: number) {
+        for (let i = 1; i < path.length; i++) {
+            this.queued.push({
+                from: path[i - 1],
+                to: path[i],
+                nMobilize: i === 1 ? nMobilize : undefined,
+            });
+        }
+        this.prepareLoop();
+    }
+
+    /*
+     * Drop every move that isn't included yet and roll back the local board.
+     * Moves already submitted may still land.
+     */
+    public clear() {
+        this.generation++;
+        for (const mv of [...this.inFlight].reverse()) {
+            this.client.rollbackMove(mv);
+        }
+        this.inFlight = [];
+        this.queued = [];
+    }
+
+    private async prepareLoop() {
+        if (this.preparing) {
+            return;
+        }
+        this.preparing = true;
+
+        while (this.queued.length > 0) {
+            const next = this.queued[0];
+
+            // City center troops are read from chain, so they are only known
+            // once every move before this one is included
+            if (this.inFlight.length > 0 && this.touchesCityCenter(next)) {
+                break;
+            }
+            this.queued.shift();
+
+            const generation = this.generation;
+            let mv: PreparedMove;
+            try {
+                mv = await this.client.prepareMove(
+                    next.from,
+                    next.to,
+                    next.nMobilize
+                );
+            } catch (error) {
+                // Moves in flight don't depend on this one, so only the moves
+                // queued after it are dropped
+                if (generation === this.generation) {
+                    this.queued = [];
+                    this.emit("moveFailed", error, next.from);
+                }
+                continue;
+            }
+
+            if (generation !== this.generation) {
+                // Queue was cleared while this move was being prepared
+                this.client.rollbackMove(mv);
+                continue;
+            }
+            this.inFlight.push(mv);
+            this.submitLoop();
+        }
+
+        this.preparing = false;
+    }
+
+    private async submitLoop() {
+        if (this.submitting) {
+            return;
+        }
+        this.submitting = true;
+
+        while (this.inFlight.length > 0) {
+            const mv = this.inFlight[0];
+            const generation = this.generation;
+            try {
+                const tx = await this.client.submitMove(mv);
+                if (generation === this.generation) {
+                    this.inFlight.shift();
+                }
+                this.emit("moveConfirmed", tx, mv);
+            } catch (error) {
+                if (generation === this.generation) {
+                    this.clear();
+                    this.emit("moveFailed", error, mv.uFrom.loc);
+                }
+                continue;
+            }
+
+            // A move waiting on chain state may be ready now
+            this.prepareLoop();
+        }
+
+        this.submitting = false;
+    }
+
+    private touchesCityCenter(mv: QueuedMove): boolean {
+        const board = this.client.board;
+        return (
+            board.getTile(mv.from, BigInt(0))?.isCityCenter() === true ||
+            board.getTile(mv.to, BigInt(0))?.isCityCenter() === true
+        );
+    }
+}
@@ -1,448 +1,280 @@
-import dotenv from "dotenv";
 import readline from "readline";
-import { io, Socket } from "socket.io-client";
-import {
-    Address,
-    createPublicClient,
-    createWalletClient,
-    defineChain,
-    formatEther,
-    getContract,
-    hexToSignature,
-    http as httpTransport,
-} from "viem";
-import { privateKeyToAccount } from "viem/accounts";
-import { foundry } from "viem/chains";
-import IWorldAbi from "../contracts/out/IWorld.sol/IWorld.json" assert { type: "json" };
-import worlds from "../contracts/worlds.json" assert { type: "json" };
-import { ClientToServerEvents, ServerToClientEvents } from "./socket";
+import { formatEther } from "viem";
 import {
     Board,
-    Groth16ProofCalldata,
-    Player,
-    ProverStatus,
-    TerrainUtils,
-    Tile,
-    Utils,
+    EventPlayer,
+    GameEvent,
+    GameEventKind,
     Location,
+    ProveProgress,
+    ProverStatus,
 } from "@seismic-systems/ns-fow-game";
-dotenv.config({ path: "../.env" });
+import { GameClient } from "./GameClient";
+import { MoveQueue } from "./MoveQueue";
 
 /*
- * Player arguments
+ * Player arguments. With --auto-spawn, the spawn location is only a preference
+ * and the client picks a spawnable site near it.
  */
-const PLAYER_PRIVKEY: string = process.argv[2];
-const PLAYER_SYMBOL: string = process.argv[3];
+const AUTO_SPAWN: boolean = process.argv.includes("--auto-spawn");
+const ARGS: string[] = process.argv.filter((arg) => arg !== "--auto-spawn");
+const PLAYER_PRIVKEY: string = ARGS[2];
+const PLAYER_SYMBOL: string = ARGS[3];
 const PLAYER_SPAWN: Location = {
-    r: Number(process.argv[4]),
-    c: Number(process.argv[5]),
-};
-
-const MOVE_PROMPT: string = "Next move: ";
-const MOVE_KEYS: Record<string, number[]> = {
-    w: [-1, 0],
-    a: [0, -1],
-    s: [1, 0],
-    d: [0, 1],
+    r: Number(ARGS[4] || 0),
+    c: Number(ARGS[5] || 0),
 };
 
 /*
- * Contract values
+ * Sites tried by --auto-spawn, which aren't suggested again.
  */
+const triedSpawns: Location[] = [];
+const MAX_SPAWN_ATTEMPTS: number = 5;
 
-const redstone = defineChain({
-    name: "Redstone Testnet",
-    id: 901,
-    network: "redstone-testnet",
-    nativeCurrency: { decimals: 18, name: "Ether", symbol: "ETH" },
-    rpcUrls: {
-        default: {
-            http: ["https://redstone.linfra.xyz/"],
-            webSocket: ["wss://redstone.linfra.xyz/"],
-        },
-        public: {
-            http: ["https://redstone.linfra.xyz/"],
-            webSocket: ["wss://redstone.linfra.xyz/"],
-        },
-    },
-});
-
-const CHAIN = process.env.CHAIN;
-const chain = CHAIN === "redstone" ? redstone : foundry;
+const MOVE_PROMPT: string =
+    "Next move ([troops] w/a/s/d, or [troops] g<row>,<col> to go there): ";
 
-const worldsTyped = worlds as unknown as {
-    [key: number]: { address: string; blockNumber: bigint };
-};
-const worldData = worldsTyped[chain.id];
-const worldAddress = worldData.address as Address;
-const account = privateKeyToAccount(PLAYER_PRIVKEY as Address);
-const abi = IWorldAbi.abi;
-
-const walletClient = createWalletClient({
-    account,
-    chain,
-    transport: httpTransport(process.env.RPC_URL),
-});
+/*
+ * Size of the map drawn around the cursor, in tiles.
+ */
+const VIEW_WIDTH: number = Number(process.env.VIEW_WIDTH) || 21;
+const VIEW_HEIGHT: number = Number(process.env.VIEW_HEIGHT) || 15;
 
-const publicClient = createPublicClient({
-    chain,
-    transport: httpTransport(process.env.RPC_URL),
-});
+/*
+ * Number of game events kept under the map.
+ */
+const BATTLE_LOG_LENGTH: number = 5;
 
-const nStates = getContract({
-    abi,
-    address: worldAddress,
-    walletClient,
-    publicClient,
-});
+const MOVE_KEYS: Record<string, number[]> = {
+    w: [-1, 0],
+    a: [0, -1],
+    s: [1, 0],
+    d: [0, 1],
+};
 
 readline.createInterface({
     input: process.stdin,
     output: process.stdout,
 });
 
-let cursor: Location;
-
-const PLAYER = new Player(PLAYER_SYMBOL, walletClient.account.address);
-
-/*
- * Client's local belief on game state stored in Board object.
- */
-let b: Board;
-
-/*
- * Cache for terrain
- */
-const terrainUtils = new TerrainUtils(
-    Number(process.env.PERLIN_KEY),
-    Number(process.env.PERLIN_SCALE),
-    Number(process.env.PERLIN_THRESHOLD_BONUS_TROOPS),
-    Number(process.env.PERLIN_THRESHOLD_HILL),
-    Number(process.env.PERLIN_THRESHOLD_WATER)
-);
+const gameClient = GameClient.fromEnv(PLAYER_PRIVKEY, PLAYER_SYMBOL);
+const moveQueue = new MoveQueue(gameClient);
 
 /*
- * Whether player has been spawned in.
+ * Where the army will be once every queued move lands.
  */
-let isSpawned = false;
+let cursor: Location;
 
 /*
- * Last block when player requested an enclave signature. Player's cannot submit
- * more than one move in a block.
+ * Digits typed before a move key, e.g. "5d" moves 5 troops right. Moves all but
+ * one troop when empty.
  */
-let clientLatestMoveBlock: bigint = 0n;
+let troopInput: string = "";
 
 /*
- * Store pending move.
+ * Destination typed after "g", e.g. "g12,30" marches the army to (12, 30) once
+ * enter is pressed. Undefined when no destination is being typed.
  */
-let currentMoveFormattedProof: Groth16ProofCalldata | undefined = undefined;
-let currentVirtualFormattedProof: Groth16ProofCalldata | undefined = undefined;
-let currentEnclaveSig: object | undefined = undefined;
-
-let startProveTime: number, endProveTime: number;
+let gotoInput: string | undefined;
 
 /*
- * Using Socket.IO to manage communication with enclave.
+ * Latest game events involving the player and other notices, oldest first.
  */
-const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(
-    `${process.env.ENCLAVE_ADDRESS}:${process.env.ENCLAVE_SERVER_PORT}`
-);
+let battleLog: string[] = [];
 
 /*
- * Submits a signature of the location to the enclave, in order to decrypt
- * hidden state.
+ * Step the latest proof is at, shown under the log until it's done. Proofs run
+ * off the main thread, so keys and enclave updates are handled meanwhile.
  */
-function updatePlayerView(l: Location) {
-    socket.emit("decrypt", Utils.stringifyLocation(l));
-}
-
-async function commitToSpawn() {
-    console.log();
-    console.log("- Requesting signature to spawn");
-
-    socket.emit(
-        "getSpawnSignature",
-        PLAYER.symbol,
-        Utils.stringifyLocation(PLAYER_SPAWN)
-    );
-}
+let provingStatus: string | undefined;
 
-async function challengeResponse(a: string) {
-    const sig = await walletClient.signMessage({ message: a });
-    socket.emit("login", sig);
-}
-
-/*
- * Response to getSpawnSignature. No matter if the response contains valid tiles
- * or null values indicating that location is not spawnable, the player must
- * send a zkp in order to try again.
- */
-async function spawnSignatureResponse(
-    virt: any,
-    spawn: any,
-    sig: string,
-    virtPrf: any,
-    virtPubSigs: any,
-    proverStatus: ProverStatus
-) {
-    if (proverStatus === ProverStatus.Incomplete) {
-        console.error(`- Rapidsnark and snarkjs failed, canceled spawn`);
+async function spawn() {
+    const spawnLoc = AUTO_SPAWN ? pickSpawnSite() : PLAYER_SPAWN;
+    if (!spawnLoc) {
+        console.error("- No spawnable site found near the preferred location");
         return;
-    } else {
-        console.log(`- ${proverStatus} successfully proved virtual ZKP`);
     }
 
-    const virtTile = Tile.fromJSON(virt);
-    const spawnTile = Tile.fromJSON(spawn);
-
-    const virtFormattedProof = await Utils.exportCallDataGroth16(
-        virtPrf,
-        virtPubSigs
+    console.log();
+    console.log(
+        `- Requesting signature to spawn at (${spawnLoc.r}, ${spawnLoc.c})`
     );
-    const [virtInputs, virtProof] =
-        Utils.unpackVirtualInputs(virtFormattedProof);
-
-    const [prf, pubSigs] = await Tile.spawnZKP(PLAYER, virtTile, spawnTile);
-
-    const spawnFormattedProof = await Utils.exportCallDataGroth16(prf, pubSigs);
-    const [spawnInputs, spawnProof] =
-        Utils.unpackSpawnInputs(spawnFormattedProof);
-    const unpackedSig = hexToSignature(sig as Address);
-    const spawnSig = {
-        v: unpackedSig.v,
-        r: unpackedSig.r,
-        s: unpackedSig.s,
-        b: 0,
-    };
-
-    console.log("- Submitting spawn proof to NS contract");
     try {
-        const tx = await nStates.write.spawn([
-            spawnInputs,
-            spawnProof,
-            virtInputs,
-            virtProof,
-            spawnSig,
-        ]);
+        const tx = await gameClient.spawn(spawnLoc);
         console.log(`- Spawn transaction hash: ${tx}`);
-        cursor = spawnTile.loc;
+        cursor = spawnLoc;
     } catch (error) {
         console.error("- Error: ", error);
+        if (AUTO_SPAWN && triedSpawns.length < MAX_SPAWN_ATTEMPTS) {
+            await spawn();
+        }
     }
 }
 
 /*
- * After logging in, player recieves a list of locations that they should
- * decrypt.
+ * Best spawn site near PLAYER_SPAWN that hasn't been tried yet.
  */
-async function loginResponse(locs: string[]) {
-    updateDisplay(locs);
-    isSpawned = true;
+function pickSpawnSite(): Location | undefined {
+    const [site] = gameClient.board.findSpawnSites(PLAYER_SPAWN, {
+        weights: Board.DEFAULT_SPAWN_WEIGHTS,
+        exclude: triedSpawns,
+    });
+    if (site) {
+        triedSpawns.push(site.loc);
+    }
+    return site?.loc;
 }
 
 /*
- * Update local view of game board based on enclave response.
+ * Queues the army at cursor moving in one of the cardinal directions. nMobilize
+ * troops are moved to the next tile, or all but one if not specified. Moves
+ * can be queued faster than they land, each one is proven while the previous
+ * one is submitted.
  */
-function decryptResponse(t: any) {
-    const tl = Tile.fromJSON(t);
-
-    b.t.set(Utils.stringifyLocation(tl.loc), tl);
+function move(inp: string, nMobilize?: number) {
+    const to = {
+        r: cursor.r + MOVE_KEYS[inp][0],
+        c: cursor.c + MOVE_KEYS[inp][1],
+    };
+    if (!gameClient.board.inBounds(to.r, to.c)) {
+        return;
+    }
 
-    console.clear();
-    b.printView();
-    process.stdout.write(MOVE_PROMPT);
+    moveQueue.enqueue(cursor, to, nMobilize);
+    cursor = to;
+    redraw();
 }
 
 /*
- * Constructs new states induced by army at cursor moving in one of the
- * cardinal directions. Alerts enclave of intended move before sending it
- * to chain. Currently hardcoded to move all but one army unit to the next
- * tile.
+ * Queues the moves that march the army at cursor to a destination typed as
+ * "row,col". Prefers a route around water, which drains troops, and only
+ * crosses tiles the player has seen.
  */
-async function move(inp: string, currentBlockHeight: bigint) {
-    startProveTime = Date.now();
-    try {
-        if (inp !== "w" && inp !== "a" && inp !== "s" && inp !== "d") {
-            throw new Error("Invalid move input.");
-        }
-
-        // Construct move states
-        const nr = cursor.r + MOVE_KEYS[inp][0],
-            nc = cursor.c + MOVE_KEYS[inp][1];
-
-        if (!b.inBounds(nr, nc)) {
-            throw new Error("Cannot move off the board.");
-        }
-
-        clientLatestMoveBlock = currentBlockHeight;
-
-        const [uFrom, uTo, moveZKPPromise] = await b.moveZKP(
-            cursor,
-            { r: nr, c: nc },
-            nStates
-        );
-
-        currentMoveFormattedProof = undefined;
-        currentVirtualFormattedProof = undefined;
-
-        const moveZKPStart = Date.now();
-        moveZKPPromise.then(async (moveRes) => {
-            const moveZKPEnd = Date.now();
-            console.log(`- Proved move ZKP in ${moveZKPEnd - moveZKPStart} ms`);
-
-            currentMoveFormattedProof = await Utils.exportCallDataGroth16(
-                moveRes.proof,
-                moveRes.publicSignals
-            );
-
-            // Submit to chain if all zkps and signatures are returned
-            await tryToSubmitMove();
-        });
-        // Update player position
-        cursor = { r: nr, c: nc };
+function goTo(inp: string, nMobilize?: number) {
+    const [r, c] = inp.split(",").map((x) => parseInt(x, 10));
+    if (isNaN(r) || isNaN(c)) {
+        return;
+    }
+    const to = { r, c };
 
-        // Alert enclave of intended move
-        socket.emit("getMoveSignature", uFrom, uTo, PLAYER.blind.toString());
-    } catch (error) {
-        console.log("- Error: ", error);
+    const path =
+        gameClient.board.findPath(cursor, to, { avoidWater: true }) ||
+        gameClient.board.findPath(cursor, to);
+    if (!path) {
+        log(`No known path to (${r}, ${c})`);
+        return;
     }
+
+    moveQueue.enqueuePath(path, nMobilize);
+    cursor = to;
+    redraw();
 }
 
 /*
- * Get signature for move proposal. This signature and the queued move will be
- * sent to the chain for approval.
+ * Draw the map centered on the cursor, or on the spawn until there is one.
  */
-async function moveSignatureResponse(
-    sig: string,
-    blockNumber: string,
-    virtPrf: any,
-    virtPubSigs: any,
-    proverStatus: ProverStatus
-) {
-    console.log();
-    switch (proverStatus) {
-        case ProverStatus.Incomplete:
-            console.error(`- Rapidsnark and snarkjs failed, canceled move`);
-            break;
-        default:
-            console.log(`- ${proverStatus} successfully proved virtual ZKP`);
+function redraw() {
+    console.clear();
+    gameClient.board.printView({
+        center: cursor || PLAYER_SPAWN,
+        width: VIEW_WIDTH,
+        height: VIEW_HEIGHT,
+        cursor,
+        fogUnrevealed: true,
+    });
+    for (const line of battleLog) {
+        console.log(line);
     }
-
-    currentVirtualFormattedProof = await Utils.exportCallDataGroth16(
-        virtPrf,
-        virtPubSigs
-    );
-    const unpackedSig = hexToSignature(sig as Address);
-    currentEnclaveSig = {
-        v: unpackedSig.v,
-        r: unpackedSig.r,
-        s: unpackedSig.s,
-        b: blockNumber,
-    };
-
-    // Submit to chain if all zkps and signatures are returned
-    await tryToSubmitMove();
+    if (provingStatus) {
+        console.log(provingStatus);
+    }
+    process.stdout.write(MOVE_PROMPT);
 }
 
 /*
- * Submit pending move to contract. Will only write to nStates if 1) the player
- * has finished proving the move ZKP, 2) the enclave has finished proving
- * virtual ZKP and returned it with a signature.
+ * Add a line to the log under the map.
  */
-async function tryToSubmitMove() {
-    if (
-        !currentMoveFormattedProof ||
-        !currentVirtualFormattedProof ||
-        !currentEnclaveSig
-    ) {
-        return;
-    }
-
-    const [moveInputs, moveProof] = Utils.unpackMoveInputs(
-        currentMoveFormattedProof
-    );
-    const [virtInputs, virtProof] = Utils.unpackVirtualInputs(
-        currentVirtualFormattedProof
-    );
-
-    endProveTime = Date.now();
-    const provingTime = endProveTime - startProveTime;
-    console.log(`- Total move construction time: ${provingTime}ms`);
-
-    // Send provingTime to enclave
-    fetch(
-        `${process.env.ENCLAVE_ADDRESS}:${process.env.ENCLAVE_SERVER_PORT}/provingTime`,
-        {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify({ provingTime }),
-        }
-    );
-
-    await nStates.write.move([
-        moveInputs,
-        moveProof,
-        virtInputs,
-        virtProof,
-        currentEnclaveSig,
-    ]);
-
-    // Reset global variables when move has been submitted onchain
-    currentMoveFormattedProof = undefined;
-    currentVirtualFormattedProof = undefined;
-    currentEnclaveSig = undefined;
+function log(line: string) {
+    battleLog.push(`- ${line}`);
+    battleLog = battleLog.slice(-BATTLE_LOG_LENGTH);
+    redraw();
 }
 
 /*
- * Refreshes the user's game board view. Done in response to enclave ping that
- * a relevant move was made.
+ * One line summary of a game event, from the player's point of view.
  */
-async function updateDisplay(locs: string[]) {
-    for (let i = 0; i < locs.length; i++) {
-        const l = Utils.unstringifyLocation(locs[i]);
-        if (l) {
-            updatePlayerView(l);
-
-            // Set cursor if not previously set
-            if (i == 0 && !cursor) {
-                cursor = l;
-            }
-        }
+function describeEvent(ev: GameEvent): string {
+    const who = (pl: EventPlayer) =>
+        pl.address === gameClient.address ? "You" : `Player ${pl.symbol}`;
+    const at = (l: Location) => `(${l.r}, ${l.c})`;
+
+    switch (ev.kind) {
+        case GameEventKind.TileCaptured:
+            return `${who(ev.to)} took ${at(ev.loc)} from ${who(ev.from)}`;
+        case GameEventKind.CityCaptured:
+            return `${who(ev.to)} captured the city at ${at(ev.loc)} (${
+                ev.nTiles
+            } tiles) from ${who(ev.from)}`;
+        case GameEventKind.PlayerEliminated:
+            return ev.player.address === gameClient.address
+                ? `You were eliminated by ${who(ev.by)}`
+                : `Player ${ev.player.symbol} was eliminated by ${who(ev.by)}`;
+        case GameEventKind.Reinforcement:
+            return `${at(ev.loc)} reinforced to ${ev.troops} troops`;
     }
 }
 
 /*
- * Set up player session with enclave. Spawning if necessary.
+ * Redraw the player's view whenever the enclave reveals a tile.
  */
-socket.on("connect", async () => {
-    console.log("- Seismic Node connection established");
+gameClient.onTileUpdate(redraw);
 
-    console.log(`- Player's address: ${walletClient.account.address}`);
-    const balance = await publicClient.getBalance({
-        address: account.address,
-    });
-    console.log(`- Player's balance in ETH: ${formatEther(balance)}`);
- 
-    console.log("- Press any key to continue or ESC to exit...");
-    process.stdin.resume();
-    process.stdin.on("data", (key) => {
-        // ESC
-        if (key.toString() === "\u001B") {
-            console.log("- Exiting...");
-            process.exit();
-        }
-    });
-    await new Promise((resolve) => process.stdin.once("data", resolve));
+/*
+ * After logging in, player recieves a list of locations that they should
+ * decrypt. Set cursor if not previously set.
+ */
+gameClient.on("login", (locs: Location[]) => {
+    if (!cursor && locs.length > 0) {
+        cursor = locs[0];
+    }
+});
+
+gameClient.on("trySpawn", spawn);
+
+// Show queued moves on the board before they land
+gameClient.on("moveProposed", redraw);
+
+gameClient.on("gameEvent", (ev: GameEvent) => {
+    log(describeEvent(ev));
+});
+
+gameClient.on("proofProgress", (l: Location, progress: ProveProgress) => {
+    provingStatus =
+        progress.done < progress.total
+            ? `- Proving (${l.r}, ${l.c}): ${progress.step} (${progress.done}/${progress.total})`
+            : undefined;
+    redraw();
+});
+
+gameClient.on(
+    "moveProven",
+    (provingTime: number, proverStatus: ProverStatus) => {
+        log(`Move proven in ${provingTime}ms (${proverStatus})`);
+    }
+);
 
-    b = new Board(terrainUtils);
-    b.seed();
+moveQueue.on("moveConfirmed", (tx) => {
+    console.log(`- Move transaction hash: ${tx}`);
+});
 
-    socket.emit("challenge");
+// Failed move and every move after it were dropped, so army is back at from
+moveQueue.on("moveFailed", (error, from) => {
+    console.log("- Error: ", error);
+    cursor = from;
+    redraw();
 });
 
-socket.on("disconnect", () => {
+gameClient.on("disconnect", () => {
     console.log(
         "- Disconnected from Seismic socket connection. Safely terminating client..."
     );
@@ -452,20 +284,70 @@ socket.on("disconnect", () => {
 /*
  * Game loop.
  */
-process.stdin.on("keypress", async (str) => {
-    const currentBlockHeight = await publicClient.getBlockNumber();
-    if (clientLatestMoveBlock < currentBlockHeight && isSpawned) {
-        await move(str, currentBlockHeight);
+process.stdin.on("keypress", (str, key) => {
+    if (gotoInput !== undefined) {
+        if (str !== undefined && /^[0-9,]$/.test(str)) {
+            gotoInput += str;
+            return;
+        }
+        if (key?.name !== "return" && key?.name !== "enter") {
+            return;
+        }
+
+        const nMobilize = troopInput ? parseInt(troopInput, 10) : undefined;
+        const inp = gotoInput;
+        troopInput = "";
+        gotoInput = undefined;
+
+        if (gameClient.isSpawned && cursor) {
+            goTo(inp, nMobilize);
+        }
+        return;
+    }
+
+    if (str !== undefined && /^[0-9]$/.test(str)) {
+        troopInput += str;
+        return;
+    }
+    if (str === "g") {
+        gotoInput = "";
+        return;
+    }
+    if (!MOVE_KEYS[str]) {
+        return;
+    }
+
+    const nMobilize = troopInput ? parseInt(troopInput, 10) : undefined;
+    troopInput = "";
+
+    if (gameClient.isSpawned && cursor) {
+        move(str, nMobilize);
     }
 });
 
 /*
- * Attach event handlers.
+ * Set up player session with enclave. Spawning if necessary.
  */
-socket.on("challengeResponse", challengeResponse);
-socket.on("spawnSignatureResponse", spawnSignatureResponse);
-socket.on("trySpawn", commitToSpawn);
-socket.on("loginResponse", loginResponse);
-socket.on("decryptResponse", decryptResponse);
-socket.on("moveSignatureResponse", moveSignatureResponse);
-socket.on("updateDisplay", updateDisplay);
+await gameClient.connect();
+console.log("- Seismic Node connection established");
+
+console.log(`- Player's address: ${gameClient.address}`);
+const balance = await gameClient.publicClient.getBalance({
+    address: gameClient.address,
+});
+console.log(`- Player's balance in ETH: ${formatEther(balance)}`);
+
+console.log("- Press any key to continue or ESC to exit...");
+process.stdin.resume();
+process.stdin.on("data", (key) => {
+    // ESC
+    if (key.toString() === "\u001B") {
+        console.log("- Exiting...");
+        process.exit();
+    }
+});
+await new Promise((resolve) => process.stdin.once("data", resolve));
+
+if (!(await gameClient.login())) {
+    await spawn();
+}
@@ -1,28 +1,51 @@
-import { ProverStatus } from "@seismic-systems/ns-fow-game/Utils";
+import {
+    GameEvent,
+    Groth16Proof,
+    ProverStatus,
+    TileJSON,
+} from "@seismic-systems/ns-fow-game";
+
+/*
+ * Sent instead of a response when the enclave refuses a request, e.g. because
+ * its payload is malformed. event is the name of the refused request, and code
+ * is set for refusals a client can act on, such as a MoveRefusal.
+ */
+type RequestError = {
+    event: keyof ClientToServerEvents;
+    reason: string;
+    code?: string;
+};
+
+/*
+ * Locations travel as strings produced by Utils.stringifyLocation().
+ */
+type LocationString = string;
 
 interface ServerToClientEvents {
     challengeResponse: (a: string) => void;
-    loginResponse: (locs: string[]) => void;
+    loginResponse: (locs: LocationString[]) => void;
     trySpawn: () => void;
     handshakeDAResponse: (inRecoveryMode: boolean) => void;
-    decryptResponse: (t: any) => void;
+    decryptResponse: (t: TileJSON) => void;
     spawnSignatureResponse: (
-        virt: any,
-        spawn: any,
+        virt: TileJSON,
+        spawn: TileJSON,
         sig: string,
-        prf: any,
-        pubsigs: any,
+        b: string,
+        prf: Groth16Proof,
+        pubsigs: string[],
         proverStatus: ProverStatus
     ) => void;
     moveSignatureResponse: (
         sig: string,
         b: string,
-        prf: any,
-        pubsigs: any,
+        prf: Groth16Proof,
+        pubsigs: string[],
         proverStatus: ProverStatus
     ) => void;
-    updateDisplay: (locs: string[]) => void;
-    sendRecoveredTile: (index: number) => void;
+    updateDisplay: (locs: LocationString[]) => void;
+    gameEvents: (events: GameEvent[]) => void;
+    requestError: (err: RequestError) => void;
     saveToDatabase: (enc: any) => void;
 }
 
@@ -30,11 +53,9 @@ interface ClientToServerEvents {
     challenge: () => void;
     login: (sig: string) => void;
     handshakeDA: () => void;
-    decrypt: (l: string) => void;
-    getSpawnSignature: (symb: string, l: string) => void;
-    getMoveSignature: (uFrom: any, uTo: any, blind: string) => void;
-    sendRecoveredTileResponse: (enc: any) => void;
-    recoveryFinished: () => void;
+    decrypt: (l: LocationString) => void;
+    getSpawnSignature: (symb: string, l: LocationString) => void;
+    getMoveSignature: (uFrom: TileJSON, uTo: TileJSON, blind: string) => void;
     saveToDatabaseResponse: () => void;
 }
 
@@ -47,6 +68,8 @@ interface SocketData {
 }
 
 export {
+    RequestError,
+    LocationString,
     ServerToClientEvents,
     ClientToServerEvents,
     InterServerEvents,
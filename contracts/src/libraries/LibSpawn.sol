@@ -8,23 +8,34 @@ import {Config, CityPlayer, City, PlayerLastUpdateBlock, SpawnCommitment, TileCo
 library LibSpawn {
     /// @notice Runs various checks for the move
     function checkSpawnInputs(
+        address player,
         SpawnInputs memory spawnInputs,
         Signature memory sig
     ) internal view {
         require(spawnInputs.spawnCityId != 0, "City ID must be non-zero");
+        require(SpawnCommitment.get(player) != 0, "Must commit to spawn first");
+        require(
+            SpawnCommitment.get(player) == spawnInputs.hBlindLoc,
+            "Spawn does not match commitment"
+        );
+        require(
+            block.number <= sig.b + Config.getClaimedMoveLifeSpan(),
+            "Spawn expired"
+        );
 
         require(
             CityPlayer.getValue(spawnInputs.spawnCityId) == address(0),
             "City is already in game"
         );
         require(
-            _getSigner(spawnInputs.hSpawnTile, sig) ==
+            _getSigner(player, spawnInputs.hSpawnTile, sig) ==
                 Config.getEnclave(),
             "Enclave spawn sig incorrect"
         );
     }
 
     function spawnPlayer(address player, SpawnInputs memory sp) internal {
+        SpawnCommitment.deleteRecord(player);
         TileCommitment.deleteRecord(sp.hPrevTile);
         TileCommitment.set(sp.hSpawnTile, true);
 
@@ -45,11 +56,15 @@ library LibSpawn {
         SpawnCommitment.deleteRecord(player);
     }
 
+    /// @notice Signer of a spawn for player. The player is part of the
+    /// signed message, so another account replaying the calldata recovers
+    /// a different signer
     function _getSigner(
+        address player,
         uint256 hSpawnTile,
         Signature memory sig
     ) public pure returns (address) {
-        bytes32 hash = keccak256(abi.encode(hSpawnTile));
+        bytes32 hash = keccak256(abi.encode(sig.b, player, hSpawnTile));
         bytes32 prefixedHash = keccak256(
             abi.encodePacked("\x19Ethereum Signed Message:\n32", hash)
         );
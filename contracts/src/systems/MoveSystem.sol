@@ -65,4 +65,8 @@ contract MoveSystem is IEnclaveEvents, System {
     function getCityCenterTroops(uint24 cityId) public view returns (uint32) {
         return City.getCenterTroopCount({id: cityId});
     }
+
+    function getClaimedMoveLifeSpan() public view returns (uint256) {
+        return Config.getClaimedMoveLifeSpan();
+    }
 }
@@ -16,6 +16,7 @@ import {LibVirtualVerify} from "libraries/LibVirtualVerify.sol";
 
 contract SpawnSystem is IEnclaveEvents, System {
     function commitToSpawn(uint256 h) public {
+        require(h != 0, "Commitment must be non-zero");
         require(
             SpawnCommitment.get(_msgSender()) == 0,
             "Already commited to spawn"
@@ -24,6 +25,12 @@ contract SpawnSystem is IEnclaveEvents, System {
         SpawnCommitment.set({id: _msgSender(), value: h});
     }
 
+    /// @notice Withdraws a commitment the enclave refused to sign a spawn
+    /// for, so the player can commit to another location
+    function clearSpawnCommitment() public {
+        SpawnCommitment.deleteRecord(_msgSender());
+    }
+
     function spawn(
         SpawnInputs memory spawnInputs,
         Groth16Proof memory spawnProof,
@@ -31,7 +38,7 @@ contract SpawnSystem is IEnclaveEvents, System {
         Groth16Proof memory virtualProof,
         Signature memory sig
     ) public {
-        LibSpawn.checkSpawnInputs(spawnInputs, sig);
+        LibSpawn.checkSpawnInputs(_msgSender(), spawnInputs, sig);
         LibSpawnVerify.verifySpawnProof(spawnInputs, spawnProof);
         LibVirtualVerify.verifyVirtualProof(virtualInputs, virtualProof);
 
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0;
+
+import {MudTest} from "@latticexyz/world/test/MudTest.t.sol";
+
+import {IWorld} from "codegen/world/IWorld.sol";
+import {Groth16Proof} from "common/Groth16Proof.sol";
+import {Signature} from "common/Signature.sol";
+import {SpawnInputs} from "common/SpawnInputs.sol";
+import {VirtualInputs} from "common/VirtualInputs.sol";
+
+contract SpawnSystemTest is MudTest {
+    uint256 constant ENCLAVE_KEY = 0xe1;
+
+    IWorld world;
+    address victim = address(0xa11ce);
+    address attacker = address(0xbad);
+
+    function setUp() public override {
+        super.setUp();
+        world = IWorld(worldAddress);
+        world.setEnclave(vm.addr(ENCLAVE_KEY));
+    }
+
+    function testReplayedSpawnReverts() public {
+        SpawnInputs memory spawnInputs = SpawnInputs({
+            canSpawn: true,
+            spawnCityId: 1,
+            hPrevTile: 1,
+            hSpawnTile: 2,
+            hBlindLoc: 3
+        });
+        Signature memory sig = signSpawn(victim, spawnInputs.hSpawnTile);
+
+        vm.prank(victim);
+        world.commitToSpawn(spawnInputs.hBlindLoc);
+
+        // hBlindLoc is public, so anyone can commit to the same location
+        vm.prank(attacker);
+        world.commitToSpawn(spawnInputs.hBlindLoc);
+
+        Groth16Proof memory proof;
+        VirtualInputs memory virtualInputs;
+        vm.prank(attacker);
+        vm.expectRevert("Enclave spawn sig incorrect");
+        world.spawn(spawnInputs, proof, virtualInputs, proof, sig);
+    }
+
+    /// @notice Spawn signature the enclave would give player
+    function signSpawn(
+        address player,
+        uint256 hSpawnTile
+    ) internal view returns (Signature memory) {
+        bytes32 hash = keccak256(abi.encode(block.number, player, hSpawnTile));
+        bytes32 prefixedHash = keccak256(
+            abi.encodePacked("\x19Ethereum Signed Message:\n32", hash)
+        );
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(ENCLAVE_KEY, prefixedHash);
+        return Signature({v: v, r: r, s: s, b: block.number});
+    }
+}
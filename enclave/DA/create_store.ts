@@ -0,0 +1,38 @@
+import { DAStore } from "./da_store";
+import { DynamoDBDAStore } from "./dynamodb_store";
+import { FileDAStore } from "./file_store";
+import { MemoryDAStore } from "./memory_store";
+import { PostgresDAStore } from "./postgres_store";
+
+/*
+ * Backends the DA can be configured with through DA_BACKEND.
+ */
+export enum DABackend {
+    Memory = "memory",
+    File = "file",
+    DynamoDB = "dynamodb",
+    Postgres = "postgres",
+}
+
+/*
+ * Instantiates the DA backend for a table. FileDAStore writes to
+ * `${dir}/${tableName}.json`, where dir defaults to bin.
+ */
+export function createDAStore(
+    backend: string,
+    tableName: string,
+    dir?: string
+): DAStore {
+    switch (backend) {
+        case DABackend.Memory:
+            return new MemoryDAStore();
+        case DABackend.File:
+            return new FileDAStore(`${dir || "bin"}/${tableName}.json`);
+        case DABackend.DynamoDB:
+            return new DynamoDBDAStore(tableName);
+        case DABackend.Postgres:
+            return new PostgresDAStore(tableName);
+        default:
+            throw new Error(`Unknown DA backend: ${backend}`);
+    }
+}
@@ -0,0 +1,23 @@
+/*
+ * A claimed tile as it sits in the DA. Only the tile hash, the block the
+ * enclave signed it at and whether it was finalized on chain are public. The
+ * rest is the AES-256-GCM encryption of the tile.
+ */
+export type DARecord = {
+    hash: string;
+    blockNumber: string;
+    finalized: boolean;
+    ciphertext: string;
+    iv: string;
+    tag: string;
+};
+
+/*
+ * Storage backend behind ClaimedTileDAWrapper. Records are keyed by hash.
+ */
+export interface DAStore {
+    get(hash: string): Promise<DARecord | undefined>;
+    put(record: DARecord): Promise<void>;
+    delete(hash: string): Promise<void>;
+    scan(): Promise<DARecord[]>;
+}
@@ -1,20 +1,134 @@
-import { Tile } from "@seismic-systems/ns-fow-game";
-import {
-    addorReplaceDataToDynamoDB,
-    getDataFromDynamoDB,
-} from "./dynamodb_setup";
+import { Tile, Utils } from "@seismic-systems/ns-fow-game";
+import { DARecord, DAStore } from "./da_store";
 
 export class ClaimedTileDAWrapper {
-    static async saveClaimedTile(tile: Tile) {
-        await addorReplaceDataToDynamoDB("claimedTiles", {
+    /*
+     * Backend that claimed tiles are written to. Must be set before reading or
+     * writing to the DA.
+     */
+    static store: DAStore;
+
+    /*
+     * AES-256 key that claimed tiles are encrypted with before they leave the
+     * enclave. Must be set before reading or writing to the DA.
+     */
+    static encryptionKey: Buffer;
+
+    static setStore(store: DAStore) {
+        ClaimedTileDAWrapper.store = store;
+    }
+
+    static setEncryptionKey(encKey: Buffer) {
+        ClaimedTileDAWrapper.encryptionKey = encKey;
+    }
+
+    /*
+     * Records are indexed by the tile's public hash. Everything else, including
+     * the tile's access key, is only stored as AES-256-GCM ciphertext.
+     * blockNumber is the block the enclave signed the tile at, after which it
+     * has claimedMoveLifeSpan blocks to be finalized.
+     */
+    static async saveClaimedTile(tile: Tile, blockNumber: bigint) {
+        const { ciphertext, iv, tag } = Utils.encryptTile(
+            ClaimedTileDAWrapper.encryptionKey,
+            tile
+        );
+        await ClaimedTileDAWrapper.store.put({
             hash: tile.hash(),
-            tileJSON: tile.toJSON(),
+            blockNumber: blockNumber.toString(),
+            finalized: false,
+            ciphertext,
+            iv,
+            tag,
         });
     }
 
     static async getClaimedTile(hash: string) {
-        const res = await getDataFromDynamoDB("claimedTiles", { hash });
-        
-        return res ? Tile.fromJSON(res.tileJSON) : undefined;
+        const res = await ClaimedTileDAWrapper.store.get(hash);
+
+        return res ? ClaimedTileDAWrapper.decryptRecord(res) : undefined;
+    }
+
+    /*
+     * Flag a claimed tile as referenced by a NewMove or NewSpawnAttempt event,
+     * so that it's never garbage collected.
+     */
+    static async markFinalized(hash: string) {
+        const res = await ClaimedTileDAWrapper.store.get(hash);
+        if (res && !res.finalized) {
+            await ClaimedTileDAWrapper.store.put({ ...res, finalized: true });
+        }
+    }
+
+    /*
+     * Deletes claimed tiles that were never finalized and whose signature
+     * expired before latestBlock. Returns the number of deleted tiles.
+     */
+    static async deleteStaleClaimedTiles(
+        latestBlock: bigint,
+        lifeSpan: bigint
+    ): Promise<number> {
+        const items = await ClaimedTileDAWrapper.store.scan();
+
+        let nDeleted = 0;
+        for (const item of items) {
+            if (
+                !item.finalized &&
+                BigInt(item.blockNumber) + lifeSpan < latestBlock
+            ) {
+                await ClaimedTileDAWrapper.store.delete(item.hash);
+                nDeleted++;
+            }
+        }
+        return nDeleted;
+    }
+
+    /*
+     * Every claimed tile in the DA, keyed by the hash it was stored under.
+     * Used to rebuild the enclave's state in recovery mode.
+     */
+    static async getAllClaimedTiles(): Promise<Map<string, Tile>> {
+        const items = await ClaimedTileDAWrapper.store.scan();
+
+        let claimedTiles = new Map<string, Tile>();
+        for (const item of items) {
+            const tile = ClaimedTileDAWrapper.decryptRecord(item);
+            if (tile) {
+                claimedTiles.set(item.hash, tile);
+            }
+        }
+        return claimedTiles;
+    }
+
+    /*
+     * Decrypts a DA record back into a Tile. Returns undefined if the record
+     * fails GCM authentication or decrypts to a tile that doesn't match the
+     * hash it's indexed by, i.e. it was tampered with or moved.
+     */
+    private static decryptRecord(record: DARecord): Tile | undefined {
+        let tile: Tile;
+        try {
+            tile = Tile.fromJSON(
+                Utils.decryptTile(
+                    ClaimedTileDAWrapper.encryptionKey,
+                    record.ciphertext,
+                    record.iv,
+                    record.tag
+                )
+            );
+        } catch (error) {
+            console.error(
+                `- DA record with hash ${record.hash} failed authentication`
+            );
+            return undefined;
+        }
+
+        if (tile.hash() !== record.hash) {
+            console.error(
+                `- DA record with hash ${record.hash} decrypts to another tile`
+            );
+            return undefined;
+        }
+        return tile;
     }
 }
@@ -0,0 +1,35 @@
+import { DARecord, DAStore } from "./da_store";
+import {
+    addorReplaceDataToDynamoDB,
+    deleteDataFromDynamoDB,
+    getDataFromDynamoDB,
+    scanFullTable,
+} from "./dynamodb_setup";
+
+/*
+ * Stores records in a DynamoDB table keyed by "hash".
+ */
+export class DynamoDBDAStore implements DAStore {
+    tableName: string;
+
+    constructor(tableName: string) {
+        this.tableName = tableName;
+    }
+
+    async get(hash: string): Promise<DARecord | undefined> {
+        const item = await getDataFromDynamoDB(this.tableName, { hash });
+        return item as DARecord | undefined;
+    }
+
+    async put(record: DARecord): Promise<void> {
+        await addorReplaceDataToDynamoDB(this.tableName, record);
+    }
+
+    async delete(hash: string): Promise<void> {
+        await deleteDataFromDynamoDB(this.tableName, { hash });
+    }
+
+    async scan(): Promise<DARecord[]> {
+        return await scanFullTable(this.tableName);
+    }
+}
@@ -0,0 +1,62 @@
+import * as fs from "fs";
+import { DARecord, DAStore } from "./da_store";
+
+/*
+ * Persists records to a single JSON file on local disk, for single-box
+ * deploys. The whole file is rewritten on every change, so it should not be
+ * used for large games.
+ */
+export class FileDAStore implements DAStore {
+    path: string;
+    records: Map<string, DARecord>;
+    writing: Promise<void> = Promise.resolve();
+
+    constructor(path: string) {
+        this.path = path;
+        this.records = new Map<string, DARecord>();
+
+        if (fs.existsSync(path)) {
+            const saved: DARecord[] = JSON.parse(
+                fs.readFileSync(path, { encoding: "utf8" })
+            );
+            saved.forEach((record) => this.records.set(record.hash, record));
+        }
+    }
+
+    async get(hash: string): Promise<DARecord | undefined> {
+        return this.records.get(hash);
+    }
+
+    async put(record: DARecord): Promise<void> {
+        this.records.set(record.hash, record);
+        await this.flush();
+    }
+
+    async delete(hash: string): Promise<void> {
+        if (this.records.delete(hash)) {
+            await this.flush();
+        }
+    }
+
+    async scan(): Promise<DARecord[]> {
+        return Array.from(this.records.values());
+    }
+
+    /*
+     * Write to a temporary file first so a crash mid-write can't corrupt the
+     * store. Flushes are chained so two writers never share the temporary
+     * file, and each one snapshots the records when its turn comes.
+     */
+    private flush(): Promise<void> {
+        const next = this.writing.then(async () => {
+            const tmpPath = `${this.path}.tmp`;
+            await fs.promises.writeFile(
+                tmpPath,
+                JSON.stringify(Array.from(this.records.values()))
+            );
+            await fs.promises.rename(tmpPath, this.path);
+        });
+        this.writing = next.catch(() => {});
+        return next;
+    }
+}
@@ -1 +1,7 @@
 export * from "./da_wrappers";
+export * from "./da_store";
+export * from "./create_store";
+export * from "./memory_store";
+export * from "./file_store";
+export * from "./dynamodb_store";
+export * from "./postgres_store";
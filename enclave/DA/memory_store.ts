@@ -0,0 +1,29 @@
+import { DARecord, DAStore } from "./da_store";
+
+/*
+ * Keeps records in process memory. Nothing survives a restart, so this is only
+ * meant for tests and local development.
+ */
+export class MemoryDAStore implements DAStore {
+    records: Map<string, DARecord>;
+
+    constructor() {
+        this.records = new Map<string, DARecord>();
+    }
+
+    async get(hash: string): Promise<DARecord | undefined> {
+        return this.records.get(hash);
+    }
+
+    async put(record: DARecord): Promise<void> {
+        this.records.set(record.hash, record);
+    }
+
+    async delete(hash: string): Promise<void> {
+        this.records.delete(hash);
+    }
+
+    async scan(): Promise<DARecord[]> {
+        return Array.from(this.records.values());
+    }
+}
@@ -0,0 +1,95 @@
+import pg from "pg";
+import { DARecord, DAStore } from "./da_store";
+
+/*
+ * Stores records in a Postgres table. Connection settings are read from the
+ * standard PGHOST, PGUSER, PGPASSWORD, PGDATABASE and PGPORT variables.
+ */
+export class PostgresDAStore implements DAStore {
+    static COLUMNS: string =
+        'hash, block_number AS "blockNumber", finalized, ciphertext, iv, tag';
+
+    tableName: string;
+    pool: pg.Pool;
+    tableReady?: Promise<void>;
+
+    constructor(tableName: string) {
+        this.tableName = tableName;
+        this.pool = new pg.Pool();
+    }
+
+    async get(hash: string): Promise<DARecord | undefined> {
+        await this.ready();
+        const res = await this.pool.query(
+            `SELECT ${PostgresDAStore.COLUMNS} FROM ${this.tableName} WHERE hash = $1`,
+            [hash]
+        );
+        return res.rows[0];
+    }
+
+    async put(record: DARecord): Promise<void> {
+        await this.ready();
+        await this.pool.query(
+            `INSERT INTO ${this.tableName}
+                (hash, block_number, finalized, ciphertext, iv, tag)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             ON CONFLICT (hash) DO UPDATE SET
+                block_number = EXCLUDED.block_number,
+                finalized = EXCLUDED.finalized,
+                ciphertext = EXCLUDED.ciphertext,
+                iv = EXCLUDED.iv,
+                tag = EXCLUDED.tag`,
+            [
+                record.hash,
+                record.blockNumber,
+                record.finalized,
+                record.ciphertext,
+                record.iv,
+                record.tag,
+            ]
+        );
+    }
+
+    async delete(hash: string): Promise<void> {
+        await this.ready();
+        await this.pool.query(`DELETE FROM ${this.tableName} WHERE hash = $1`, [
+            hash,
+        ]);
+    }
+
+    async scan(): Promise<DARecord[]> {
+        await this.ready();
+        const res = await this.pool.query(
+            `SELECT ${PostgresDAStore.COLUMNS} FROM ${this.tableName}`
+        );
+        return res.rows;
+    }
+
+    /*
+     * Table is created on first use so that constructing the store doesn't
+     * require the database to be up. A failed attempt isn't cached, so the
+     * next call tries again.
+     */
+    private ready(): Promise<void> {
+        if (!this.tableReady) {
+            this.tableReady = this.createTable().catch((error) => {
+                this.tableReady = undefined;
+                throw error;
+            });
+        }
+        return this.tableReady;
+    }
+
+    private async createTable() {
+        await this.pool.query(
+            `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+                hash TEXT PRIMARY KEY,
+                block_number TEXT NOT NULL,
+                finalized BOOLEAN NOT NULL,
+                ciphertext TEXT NOT NULL,
+                iv TEXT NOT NULL,
+                tag TEXT NOT NULL
+            )`
+        );
+    }
+}
@@ -0,0 +1,175 @@
+import { NextFunction, Request, Response } from "express";
+import { IncomingMessage } from "http";
+import { Address, recoverMessageAddress } from "viem";
+import { Utils } from "@seismic-systems/ns-fow-game";
+
+/*
+ * Request with the body exactly as it was sent, which is what clients sign.
+ */
+type RawBodyRequest = IncomingMessage & { rawBody?: string };
+
+/*
+ * Signed-request authentication and rate limiting for the enclave's HTTP
+ * routes. Works like the socket login: the client fetches a challenge, signs
+ * it along with the request, and the enclave recovers the signer's address.
+ * Challenges are single use, so signed requests cannot be replayed.
+ */
+export class HTTPAuth {
+    static CHALLENGE_HEADER: string = "x-challenge";
+    static SIGNATURE_HEADER: string = "x-signature";
+    static CHALLENGE_LIFESPAN_MS: number = 60 * 1000;
+
+    /*
+     * Outstanding challenges and when they expire.
+     */
+    challenges: Map<string, number> = new Map<string, number>();
+
+    /*
+     * Requests seen in the current window, keyed by address for signed routes
+     * and by IP for the rest.
+     */
+    windows: Map<string, { start: number; count: number }> = new Map<
+        string,
+        { start: number; count: number }
+    >();
+
+    maxRequests: number;
+    windowMs: number;
+
+    /*
+     * Whether a recovered address may use signed routes at all.
+     */
+    isAllowed: (address: string) => boolean;
+
+    constructor(
+        maxRequests: number,
+        windowMs: number,
+        isAllowed: (address: string) => boolean
+    ) {
+        this.maxRequests = maxRequests;
+        this.windowMs = windowMs;
+        this.isAllowed = isAllowed;
+    }
+
+    /*
+     * Message a client signs to authenticate a request.
+     */
+    static message(
+        challenge: string,
+        method: string,
+        path: string,
+        body: string
+    ): string {
+        return `${challenge}\n${method} ${path}\n${body}`;
+    }
+
+    /*
+     * Keeps the raw body around for signature checks. Passed as the verify
+     * option of express.json().
+     */
+    static saveRawBody(req: RawBodyRequest, res: unknown, buf: Buffer) {
+        req.rawBody = buf.toString("utf8");
+    }
+
+    public issueChallenge(): string {
+        this.prune();
+        const challenge = Utils.genRandomInt().toString();
+        this.challenges.set(
+            challenge,
+            Date.now() + HTTPAuth.CHALLENGE_LIFESPAN_MS
+        );
+        return challenge;
+    }
+
+    /*
+     * Middleware that rejects requests without a valid signature over a fresh
+     * challenge. The signer's address is left in res.locals.address.
+     */
+    public authenticate() {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            const challenge = req.header(HTTPAuth.CHALLENGE_HEADER);
+            const signature = req.header(HTTPAuth.SIGNATURE_HEADER);
+            if (!challenge || !signature) {
+                res.status(401).json({ error: "Missing signature" });
+                return;
+            }
+
+            const expiry = this.challenges.get(challenge);
+            this.challenges.delete(challenge);
+            if (expiry === undefined || expiry < Date.now()) {
+                res.status(401).json({ error: "Unknown or expired challenge" });
+                return;
+            }
+
+            let address: string;
+            try {
+                address = await recoverMessageAddress({
+                    message: HTTPAuth.message(
+                        challenge,
+                        req.method,
+                        req.path,
+                        (req as RawBodyRequest).rawBody || ""
+                    ),
+                    signature: signature as Address,
+                });
+            } catch (error) {
+                res.status(401).json({ error: "Malformed signature" });
+                return;
+            }
+
+            if (!this.isAllowed(address)) {
+                res.status(403).json({ error: "Address is not logged in" });
+                return;
+            }
+
+            res.locals.address = address;
+            next();
+        };
+    }
+
+    /*
+     * Middleware that allows at most maxRequests per window for each signer,
+     * or each IP on routes without a signature.
+     */
+    public rateLimit() {
+        return (req: Request, res: Response, next: NextFunction) => {
+            const key = res.locals.address || `ip:${req.ip}`;
+            const now = Date.now();
+
+            let window = this.windows.get(key);
+            if (!window || now - window.start >= this.windowMs) {
+                this.prune();
+                window = { start: now, count: 0 };
+                this.windows.set(key, window);
+            }
+            window.count++;
+
+            if (window.count > this.maxRequests) {
+                const retryAfter = Math.ceil(
+                    (window.start + this.windowMs - now) / 1000
+                );
+                res.set("Retry-After", retryAfter.toString());
+                res.status(429).json({ error: "Too many requests" });
+                return;
+            }
+            next();
+        };
+    }
+
+    /*
+     * Forget expired challenges and finished windows.
+     */
+    private prune() {
+        const now = Date.now();
+        this.challenges.forEach((expiry, challenge) => {
+            if (expiry < now) {
+                this.challenges.delete(challenge);
+            }
+        });
+        this.windows.forEach((window, key) => {
+            if (now - window.start >= this.windowMs) {
+                this.windows.delete(key);
+            }
+        });
+    }
+}
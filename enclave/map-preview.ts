@@ -0,0 +1,275 @@
+import {
+    Location,
+    MapBounds,
+    Terrain,
+    TerrainCensus,
+    TerrainUtils,
+    Tile,
+} from "@seismic-systems/ns-fow-game";
+import dotenv from "dotenv";
+import * as fs from "fs";
+import { parseArgs } from "util";
+dotenv.config({ path: "../.env" });
+
+/*
+ * Previews the map a set of perlin parameters generates, to pick them before a
+ * match. Parameters default to the ones in .env.
+ *
+ *   pnpm preview [--rows 0:63] [--cols 0:63] [--format ansi|ppm] [--out f]
+ *                [--scale 4] [--key k] [--perlin-scale s] [--bonus t]
+ *                [--hill t] [--water t]
+ *   pnpm preview --search 0:999 [--target-water 0.1:0.2] [--target-hill a:b]
+ *                [--target-bonus a:b] [--target-spawnable a:b]
+ *
+ * Ranges are inclusive. A search prints every key in range whose map meets all
+ * of the targets given. Rects are capped at MAX_RECT_TILES tiles, searches at
+ * MAX_SEARCH_KEYS keys and images at MAX_SCALE pixels per tile.
+ */
+
+type Range = [number, number];
+
+const MAX_RECT_TILES: number = 512 * 512;
+const MAX_SEARCH_KEYS: number = 10000;
+const MAX_SCALE: number = 16;
+
+const { values: args } = parseArgs({
+    options: {
+        rows: { type: "string", default: "0:63" },
+        cols: { type: "string", default: "0:63" },
+        format: { type: "string", default: "ansi" },
+        out: { type: "string" },
+        scale: { type: "string", default: "4" },
+        key: { type: "string", default: process.env.PERLIN_KEY },
+        "perlin-scale": { type: "string", default: process.env.PERLIN_SCALE },
+        bonus: {
+            type: "string",
+            default: process.env.PERLIN_THRESHOLD_BONUS_TROOPS,
+        },
+        hill: { type: "string", default: process.env.PERLIN_THRESHOLD_HILL },
+        water: { type: "string", default: process.env.PERLIN_THRESHOLD_WATER },
+        search: { type: "string" },
+        "target-water": { type: "string" },
+        "target-hill": { type: "string" },
+        "target-bonus": { type: "string" },
+        "target-spawnable": { type: "string" },
+    },
+});
+
+/*
+ * Colors of each terrain, as RGB for images and 256-color codes for ANSI.
+ */
+const TERRAIN_COLORS: Record<Terrain, { rgb: number[]; ansi: number }> = {
+    [Terrain.BARE]: { rgb: [205, 200, 170], ansi: 187 },
+    [Terrain.WATER]: { rgb: [50, 100, 200], ansi: 26 },
+    [Terrain.HILL]: { rgb: [110, 110, 110], ansi: 242 },
+    [Terrain.BONUS_TROOPS]: { rgb: [230, 190, 40], ansi: 178 },
+};
+
+function parseRange(s: string, name: string): Range {
+    const [a, b] = s.split(":").map(Number);
+    if (!Number.isInteger(a) || !Number.isInteger(b) || a > b) {
+        throw Error(`--${name} must look like 0:63`);
+    }
+    return [a, b];
+}
+
+function parseRatioRange(s: string | undefined, name: string): Range | null {
+    if (s === undefined) {
+        return null;
+    }
+    const [a, b] = s.split(":").map(Number);
+    if (isNaN(a) || isNaN(b) || a > b) {
+        throw Error(`--${name} must look like 0.1:0.2`);
+    }
+    return [a, b];
+}
+
+/*
+ * Number given as --name, or by the .env setting it defaults to.
+ */
+function parseSetting(s: string | undefined, name: string, env: string) {
+    const x = Number(s);
+    if (s === undefined || s.trim() === "" || isNaN(x)) {
+        throw Error(`--${name} must be a number, or set ${env} in .env`);
+    }
+    return x;
+}
+
+const perlin = {
+    scale: parseSetting(args["perlin-scale"], "perlin-scale", "PERLIN_SCALE"),
+    bonus: parseSetting(args.bonus, "bonus", "PERLIN_THRESHOLD_BONUS_TROOPS"),
+    hill: parseSetting(args.hill, "hill", "PERLIN_THRESHOLD_HILL"),
+    water: parseSetting(args.water, "water", "PERLIN_THRESHOLD_WATER"),
+};
+const bounds: MapBounds = TerrainUtils.boundsFromEnv(process.env);
+
+function terrainUtilsWithKey(key: number): TerrainUtils {
+    return new TerrainUtils(
+        key,
+        perlin.scale,
+        perlin.bonus,
+        perlin.hill,
+        perlin.water,
+        bounds
+    );
+}
+
+/*
+ * Census of rect, where spawnable locations are those a spawn would be
+ * accepted on.
+ */
+function census(tu: TerrainUtils, rect: MapBounds): TerrainCensus {
+    return tu.census(rect, (l) =>
+        Tile.virtualWithKey(l, BigInt(0), tu).isSpawnable()
+    );
+}
+
+/*
+ * Ratios of each terrain in a census. Spawnable density is over all tiles.
+ */
+function ratios(census: TerrainCensus) {
+    return {
+        bare: census.bare / census.tiles,
+        water: census.water / census.tiles,
+        hill: census.hill / census.tiles,
+        bonus: census.bonusTroops / census.tiles,
+        spawnable: census.spawnable / census.tiles,
+    };
+}
+
+function printCensus(census: TerrainCensus, prefix: string = "") {
+    const pct = (x: number) => `${(100 * x).toFixed(1)}%`;
+    const r = ratios(census);
+    console.log(
+        `- ${prefix}${census.tiles} tiles: ${pct(r.bare)} bare, ${pct(
+            r.water
+        )} water, ${pct(r.hill)} hill, ${pct(r.bonus)} bonus troops, ${pct(
+            r.spawnable
+        )} spawnable`
+    );
+}
+
+/*
+ * Map as rows of colored blocks, two characters per tile so it looks square.
+ */
+function renderAnsi(tu: TerrainUtils, rect: MapBounds): string {
+    let out = "";
+    for (let r = rect.minRow; r <= rect.maxRow; r++) {
+        for (let c = rect.minCol; c <= rect.maxCol; c++) {
+            const l: Location = { r, c };
+            if (!tu.inBounds(l)) {
+                out += "  ";
+                continue;
+            }
+            const color = TERRAIN_COLORS[tu.getTerrainAtLoc(l)].ansi;
+            out += `\x1b[48;5;${color}m  `;
+        }
+        out += "\x1b[0m\n";
+    }
+    return out;
+}
+
+/*
+ * Map as a binary PPM image, scale pixels per tile. Out of bounds locations
+ * are black.
+ */
+function renderPPM(tu: TerrainUtils, rect: MapBounds, scale: number): Buffer {
+    const width = (rect.maxCol - rect.minCol + 1) * scale;
+    const height = (rect.maxRow - rect.minRow + 1) * scale;
+    const header = Buffer.from(`P6\n${width} ${height}\n255\n`, "ascii");
+    const pixels = Buffer.alloc(width * height * 3);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const l: Location = {
+                r: rect.minRow + Math.floor(y / scale),
+                c: rect.minCol + Math.floor(x / scale),
+            };
+            if (tu.inBounds(l)) {
+                const rgb = TERRAIN_COLORS[tu.getTerrainAtLoc(l)].rgb;
+                pixels.set(rgb, (y * width + x) * 3);
+            }
+        }
+    }
+    return Buffer.concat([header, pixels]);
+}
+
+/*
+ * Prints every key in range whose map of rect meets the target ratios.
+ */
+function search(keys: Range, rect: MapBounds) {
+    const targets = {
+        water: parseRatioRange(args["target-water"], "target-water"),
+        hill: parseRatioRange(args["target-hill"], "target-hill"),
+        bonus: parseRatioRange(args["target-bonus"], "target-bonus"),
+        spawnable: parseRatioRange(
+            args["target-spawnable"],
+            "target-spawnable"
+        ),
+    };
+
+    let found = 0;
+    for (let key = keys[0]; key <= keys[1]; key++) {
+        const keyCensus = census(terrainUtilsWithKey(key), rect);
+        const r = ratios(keyCensus);
+        const meets = (Object.keys(targets) as (keyof typeof targets)[]).every(
+            (t) => {
+                const range = targets[t];
+                return !range || (r[t] >= range[0] && r[t] <= range[1]);
+            }
+        );
+        if (meets) {
+            found++;
+            printCensus(keyCensus, `PERLIN_KEY=${key}: `);
+        }
+    }
+    console.log(`- ${found} of ${keys[1] - keys[0] + 1} keys meet the targets`);
+}
+
+const [minRow, maxRow] = parseRange(args.rows!, "rows");
+const [minCol, maxCol] = parseRange(args.cols!, "cols");
+const rect: MapBounds = { minRow, maxRow, minCol, maxCol };
+
+const area = (maxRow - minRow + 1) * (maxCol - minCol + 1);
+if (area > MAX_RECT_TILES) {
+    throw Error(
+        `--rows and --cols cover ${area} tiles, at most ${MAX_RECT_TILES} are allowed`
+    );
+}
+
+// Ratios of an empty census are NaN
+if (
+    maxRow < bounds.minRow ||
+    minRow > bounds.maxRow ||
+    maxCol < bounds.minCol ||
+    minCol > bounds.maxCol
+) {
+    throw Error(
+        `--rows and --cols must overlap the map, rows ${bounds.minRow}:${bounds.maxRow} and cols ${bounds.minCol}:${bounds.maxCol}`
+    );
+}
+
+if (args.search) {
+    const keys = parseRange(args.search, "search");
+    if (keys[1] - keys[0] + 1 > MAX_SEARCH_KEYS) {
+        throw Error(`--search covers at most ${MAX_SEARCH_KEYS} keys`);
+    }
+    search(keys, rect);
+} else {
+    const key = parseSetting(args.key, "key", "PERLIN_KEY");
+    const tu = terrainUtilsWithKey(key);
+    if (args.format === "ppm") {
+        const scale = Number(args.scale);
+        if (!Number.isInteger(scale) || scale < 1 || scale > MAX_SCALE) {
+            throw Error(`--scale must be an integer from 1 to ${MAX_SCALE}`);
+        }
+        const out = args.out || `map-${key}.ppm`;
+        fs.writeFileSync(out, renderPPM(tu, rect, scale));
+        console.log(`- Wrote ${out}`);
+    } else if (args.format === "ansi") {
+        process.stdout.write(renderAnsi(tu, rect));
+    } else {
+        throw Error("--format must be ansi or ppm");
+    }
+    printCensus(census(tu, rect));
+}
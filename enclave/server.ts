@@ -1,19 +1,25 @@
 import {
     Board,
+    ContractChainState,
+    createProver,
+    GameEvent,
+    GameEventKind,
     Location,
+    MoveRefusal,
     Player,
+    ProverBackend,
     ProverStatus,
+    Schema,
     TerrainUtils,
     Tile,
+    TileJSON,
     Utils,
 } from "@seismic-systems/ns-fow-game";
-import { exec as execCb } from "child_process";
 import dotenv from "dotenv";
-import express from "express";
+import express, { NextFunction, Request, Response } from "express";
 import * as fs from "fs";
 import http from "http";
 import { Server, Socket } from "socket.io";
-import { promisify } from "util";
 import {
     Address,
     createPublicClient,
@@ -36,9 +42,9 @@ import {
 } from "../client/socket";
 import IWorldAbi from "../contracts/out/IWorld.sol/IWorld.json" assert { type: "json" };
 import worlds from "../contracts/worlds.json" assert { type: "json" };
-import { ClaimedTileDAWrapper } from "./DA";
+import { ClaimedTileDAWrapper, createDAStore, DABackend } from "./DA";
+import { HTTPAuth } from "./http_auth";
 dotenv.config({ path: "../.env" });
-const exec = promisify(execCb);
 
 /*
  * Proving times saved into `bin/proving_times_${ENCLAVE_STARTUP_TIMESTAMP}.txt`
@@ -48,7 +54,8 @@ const ENCLAVE_STARTUP_TIMESTAMP = new Date()
     .replace(/[:.-]/g, "");
 
 /*
- * Whether the enclave's global state should be blank or pull from DA.
+ * Whether the enclave's global state should be blank or pull from DA. Logins
+ * are refused until recoverBoard() flips this off.
  */
 let inRecoveryMode = process.argv[2] == "1";
 
@@ -102,6 +109,7 @@ const nStates = getContract({
     walletClient,
     publicClient,
 });
+const chainState = new ContractChainState(nStates);
 
 /*
  * Set game parameters and create dummy players.
@@ -115,23 +123,75 @@ const START_RESOURCES: number = parseInt(
  * Using Socket.IO to manage communication to clients.
  */
 const app = express();
-app.use(express.json());
+app.use(express.json({ verify: HTTPAuth.saveRawBody }));
 
-// [TODO]: add auth to all endpoints
-app.get("/ping", (req, res) => {
+/*
+ * Routes that change enclave state need a request signed by a logged in
+ * player. Every route is rate limited, by signer if there is one and by IP
+ * otherwise.
+ */
+const httpAuth = new HTTPAuth(
+    parseInt(process.env.HTTP_RATE_LIMIT || "60", 10),
+    60 * 1000,
+    (address: string) => addressToId.has(address)
+);
+
+app.get("/ping", httpAuth.rateLimit(), (req, res) => {
     res.sendStatus(200);
 });
 
-app.post("/provingTime", (req, res) => {
-    const provingTime = req.body.provingTime;
-    fs.appendFile(
-        `bin/proving_times_${ENCLAVE_STARTUP_TIMESTAMP}.txt`,
-        provingTime + "\n",
-        (err: any) => {
-            if (err) throw err;
+app.get("/challenge", httpAuth.rateLimit(), (req, res) => {
+    res.json({ challenge: httpAuth.issueChallenge() });
+});
+
+app.post(
+    "/provingTime",
+    httpAuth.rateLimit(),
+    httpAuth.authenticate(),
+    httpAuth.rateLimit(),
+    (req, res) => {
+        const provingTime = req.body?.provingTime;
+        if (
+            typeof provingTime !== "number" ||
+            !Number.isFinite(provingTime) ||
+            provingTime < 0
+        ) {
+            res.status(400).json({
+                error: "provingTime must be a non-negative number",
+            });
+            return;
         }
-    );
-    res.sendStatus(200);
+
+        fs.appendFile(
+            `bin/proving_times_${ENCLAVE_STARTUP_TIMESTAMP}.txt`,
+            provingTime + "\n",
+            (err) => {
+                if (err) {
+                    console.error("- Error saving proving time: ", err);
+                    res.sendStatus(500);
+                    return;
+                }
+                res.sendStatus(200);
+            }
+        );
+    }
+);
+
+/*
+ * Malformed JSON bodies and errors thrown by routes end up here instead of
+ * crashing the enclave.
+ */
+app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+        next(err);
+        return;
+    }
+    if (err.type === "entity.parse.failed") {
+        res.status(400).json({ error: "Malformed JSON body" });
+        return;
+    }
+    console.error("- Error handling HTTP request: ", err);
+    res.sendStatus(500);
 });
 
 const server = http.createServer(app);
@@ -152,14 +212,41 @@ let rand: bigint;
 let hRand: bigint;
 
 /*
- * Cache for terrain
+ * Cache for terrain, holding at most TERRAIN_CACHE_SIZE locations
  */
 const terrainUtils = new TerrainUtils(
     Number(process.env.PERLIN_KEY),
     Number(process.env.PERLIN_SCALE),
     Number(process.env.PERLIN_THRESHOLD_BONUS_TROOPS),
     Number(process.env.PERLIN_THRESHOLD_HILL),
-    Number(process.env.PERLIN_THRESHOLD_WATER)
+    Number(process.env.PERLIN_THRESHOLD_WATER),
+    TerrainUtils.boundsFromEnv(process.env),
+    Number(process.env.TERRAIN_CACHE_SIZE) ||
+        TerrainUtils.DEFAULT_CACHE_CAPACITY
+);
+
+/*
+ * Terrain this many tiles around each of a player's city tiles is computed
+ * when they log in or spawn, so their first moves don't wait on it.
+ */
+const TERRAIN_WARM_RADIUS = 4;
+
+/*
+ * How far players see from each kind of tile
+ */
+const vision = Board.visionFromEnv(process.env);
+
+/*
+ * Proves virtual tiles with the backends in PROVER, tried in order. Falls back
+ * to snarkjs when rapidsnark fails by default. snarkjs proves on
+ * PROVER_WORKERS threads, so sockets are still served meanwhile.
+ */
+const prover = createProver(
+    process.env.PROVER ||
+        `${ProverBackend.Rapidsnark},${ProverBackend.Snarkjs}`,
+    process.env.CIRCUITS_DIR,
+    undefined,
+    parseInt(process.env.PROVER_WORKERS || "1", 10)
 );
 
 /*
@@ -189,19 +276,115 @@ let latestBlockSynced: bigint =
 
 let syncMode: boolean = false;
 
+/*
+ * Number of blocks an enclave signature stays valid for, read from contract
+ * on startup. Claimed tiles that aren't finalized within this window are
+ * deleted from the DA every claimedMoveLifeSpan blocks.
+ */
+let claimedMoveLifeSpan: bigint;
+let latestBlockSwept: bigint = latestBlockSynced;
+
+/*
+ * Encrypted snapshots of the Board are written to CHECKPOINT_PATH every
+ * CHECKPOINT_INTERVAL blocks, so recovery only replays logs after the latest
+ * one.
+ */
+const CHECKPOINT_PATH =
+    process.env.CHECKPOINT_PATH || "bin/board_checkpoint.json";
+const CHECKPOINT_INTERVAL = BigInt(process.env.CHECKPOINT_INTERVAL || "100");
+let latestBlockCheckpointed: bigint = latestBlockSynced;
+
+/*
+ * Recovery fetches logs LOG_BLOCK_RANGE blocks at a time, so RPCs that limit
+ * the range of a single getLogs call can still serve long-running chains.
+ */
+const LOG_BLOCK_RANGE = BigInt(process.env.LOG_BLOCK_RANGE || "10000");
+
+/*
+ * Recovery is retried this many times, RECOVERY_RETRY_MS apart, before the
+ * enclave gives up.
+ */
+const RECOVERY_ATTEMPTS = 5;
+const RECOVERY_RETRY_MS = 5000;
+
+/*
+ * Check the Board's indices after every finalized move when set. Walks the
+ * whole Board, so it is off by default.
+ */
+const DEBUG_BOARD_INVARIANTS = process.env.DEBUG_BOARD_INVARIANTS === "1";
+
 /*
  * Latest block height players proposed a move.
  */
 let playerLatestBlock = new Map<string, bigint>();
 
+/*
+ * Most recent tile the enclave signed at each location, along with the block
+ * it was signed in. Cleared once the tile is finalized or its signature
+ * expires.
+ */
+let signedTiles = new Map<string, { tile: Tile; sigBlock: bigint }>();
+
 /*
  * Encryption key for global state sent to DA.
  */
 let tileEncryptionKey: Buffer;
 
+/*
+ * Claimed tiles are stored in the DA backend named by DA_BACKEND, DynamoDB if
+ * unset.
+ */
+ClaimedTileDAWrapper.setStore(
+    createDAStore(
+        process.env.DA_BACKEND || DABackend.DynamoDB,
+        "claimedTiles",
+        process.env.DA_FILE_DIR
+    )
+);
+
+/*
+ * Tell the client why its request was refused, in place of a response. Sockets
+ * that have no business making the request are also cut off.
+ */
+function refuse(
+    socket: Socket,
+    event: keyof ClientToServerEvents,
+    reason: string,
+    disconnect: boolean = false,
+    code?: string
+) {
+    console.log(`- Refused ${event} from ${socket.id}: ${reason}`);
+    socket.emit("requestError", { event, reason, code });
+    if (disconnect) {
+        socket.disconnect();
+    }
+}
+
+/*
+ * Wrap a socket handler so it only runs on payloads that parse. Malformed
+ * payloads are refused with the parser's error.
+ */
+function validated<A extends [unknown, ...unknown[]]>(
+    socket: Socket,
+    event: keyof ClientToServerEvents,
+    parse: (...args: unknown[]) => A,
+    handler: (...args: A) => Promise<void> | void
+) {
+    return async (...args: unknown[]) => {
+        let parsed: A;
+        try {
+            parsed = parse(...args);
+        } catch (error) {
+            refuse(socket, event, (error as Error).message);
+            return;
+        }
+        await handler(...parsed);
+    };
+}
+
 function socketChallenge(socket: Socket) {
     if (inRecoveryMode) {
-        socket.disconnect();
+        refuse(socket, "challenge", "Enclave is recovering", true);
         return;
     }
 
@@ -221,14 +404,13 @@ function socketChallenge(socket: Socket) {
  */
 async function login(socket: Socket, sig: string) {
     if (inRecoveryMode) {
-        socket.disconnect();
+        refuse(socket, "login", "Enclave is recovering", true);
         return;
     }
 
     let challenge = socketChallenges.get(socket.id);
     if (!challenge) {
-        console.log("- Request challenge first");
-        socket.disconnect();
+        refuse(socket, "login", "Request challenge first", true);
         return;
     }
 
@@ -239,14 +421,12 @@ async function login(socket: Socket, sig: string) {
             signature: sig as Address,
         });
     } catch (error) {
-        console.log("- Malignant signature", sig);
-        socket.disconnect();
+        refuse(socket, "login", "Malignant signature", true);
         return;
     }
 
     if (!address) {
-        console.log("- Bad challenge signature");
-        socket.disconnect();
+        refuse(socket, "login", "Bad challenge signature", true);
         return;
     }
 
@@ -256,12 +436,14 @@ async function login(socket: Socket, sig: string) {
     addressToId.set(address, socket.id);
 
     if (b.isSpawned(new Player("", address))) {
+        warmTerrain(address);
+
         let visibleTiles = new Set<string>();
         b.playerCities.get(address)?.forEach((cityId: number) => {
             b.cityTiles.get(cityId)?.forEach((locString: string) => {
                 const loc = Utils.unstringifyLocation(locString);
                 if (loc) {
-                    for (let l of b.getNearbyLocations(loc)) {
+                    for (let l of b.getVisibleLocations(loc, rand)) {
                         visibleTiles.add(Utils.stringifyLocation(l));
                     }
                 }
@@ -276,40 +458,60 @@ async function login(socket: Socket, sig: string) {
 }
 
 /*
- * Propose to spawn at location l. Returns a signature of the old and new tiles
- * at location for contract to verify, or null value if player cannot spawn at
- * this location.
+ * Propose to spawn at location loc. Returns a signature of the old and new
+ * tiles at location for contract to verify, or null value if player cannot
+ * spawn at this location.
  */
-async function sendSpawnSignature(socket: Socket, symbol: string, l: string) {
+async function sendSpawnSignature(
+    socket: Socket,
+    symbol: string,
+    loc: Location
+) {
     const sender = idToAddress.get(socket.id);
     if (inRecoveryMode || !sender) {
-        socket.disconnect();
+        refuse(socket, "getSpawnSignature", "Not logged in", true);
         return;
     }
 
     if (b.isSpawned(new Player("", sender))) {
-        console.log(`- Address ${sender} already spawned`);
-        socket.disconnect();
+        refuse(
+            socket,
+            "getSpawnSignature",
+            `Address ${sender} already spawned`
+        );
         return;
     }
 
     const latestBlock = playerLatestBlock.get(sender);
     if (latestBlock === undefined || latestBlock === currentBlockHeight) {
-        console.log(`- Address ${sender} must wait before trying to spawn again`);
-        socket.disconnect();
+        refuse(
+            socket,
+            "getSpawnSignature",
+            "Must wait before trying to spawn again"
+        );
         return;
     }
 
-    let loc: Location | undefined;
-    try {
-        loc = Utils.unstringifyLocation(l);
-    } catch (error) {
-        console.log("- Malignant location string: ", l);
-        socket.disconnect();
+    if (!b.inBounds(loc.r, loc.c)) {
+        refuse(
+            socket,
+            "getSpawnSignature",
+            `Location (${loc.r}, ${loc.c}) is outside the map`,
+            false,
+            MoveRefusal.OutOfBounds
+        );
+        return;
     }
 
-    if (!loc) {
-        console.log("- Location is undefined");
+    // Spawn proof must open the player's commitment, which fixes the location
+    // before the enclave reveals anything about it
+    const commitment = await nStates.read.getSpawnCommitment([sender]);
+    if (commitment === BigInt(0)) {
+        refuse(
+            socket,
+            "getSpawnSignature",
+            `Address ${sender} has not committed to spawn`
+        );
         return;
     }
 
@@ -335,15 +537,17 @@ async function sendSpawnSignature(socket: Socket, symbol: string, l: string) {
     );
     const hSpawnTile = spawnTile.hash();
 
-    const { proof, publicSignals, proverStatus } = await virtualZKP(
-        virtTile,
-        socket.id
-    );
+    const { proof, publicSignals, proverStatus } = await virtualZKP(virtTile);
 
     // Acknowledge reception of intended move
+    const sigBlock = currentBlockHeight;
     const abiEncoded = encodeAbiParameters(
-        [{ name: "hSpawnTile", type: "uint256" }],
-        [BigInt(hSpawnTile)]
+        [
+            { name: "sigBlock", type: "uint256" },
+            { name: "player", type: "address" },
+            { name: "hSpawnTile", type: "uint256" },
+        ],
+        [sigBlock, sender as Address, BigInt(hSpawnTile)]
     );
     const sig = await walletClient.signMessage({
         message: { raw: keccak256(abiEncoded) },
@@ -351,27 +555,29 @@ async function sendSpawnSignature(socket: Socket, symbol: string, l: string) {
 
     socket.emit(
         "spawnSignatureResponse",
-        virtTile,
-        spawnTile,
+        virtTile.toJSON(),
+        spawnTile.toJSON(),
         sig,
+        sigBlock.toString(),
         proof,
         publicSignals,
         proverStatus
     );
 
     // allow player to try to spawn
-    playerLatestBlock.set(sender, currentBlockHeight);
+    playerLatestBlock.set(sender, sigBlock);
 
-    await ClaimedTileDAWrapper.saveClaimedTile(spawnTile);
+    await ClaimedTileDAWrapper.saveClaimedTile(spawnTile, sigBlock);
 }
 
 /*
  * Generates a ZKP that attests to the faithful computation of a virtual
  * tile given some committed randomness. Requester of this ZKP also provides
  * a blinding factor for location so they can use it in their client-side
- * ZKP. Uses rapidsnark prover if possible, otherwise snarkjs.
+ * ZKP. Proves with the backends in PROVER, and returns an empty proof with
+ * ProverStatus.Incomplete if all of them fail.
  */
-async function virtualZKP(virtTile: Tile, socketId: string) {
+async function virtualZKP(virtTile: Tile) {
     const inputs = {
         hRand: hRand.toString(),
         hVirt: virtTile.hash(),
@@ -379,61 +585,21 @@ async function virtualZKP(virtTile: Tile, socketId: string) {
         virt: virtTile.toCircuitInput(),
     };
 
-    let proof;
-    let publicSignals;
-    let proverStatus = ProverStatus.Incomplete;
     try {
-        // Unique ID for proof-related files
-        const proofId = socketId + "-" + inputs.hVirt;
-
-        // Write the inputs to bin/input-proofId.json
-        fs.writeFileSync(`bin/input-${proofId}.json`, JSON.stringify(inputs));
-
-        // Call virtual-prover.sh
-        console.log(`- Proving virtual ZKP with ID = ${proofId}`);
+        console.log(`- Proving virtual ZKP for ${inputs.hVirt}`);
         const startTime = Date.now();
-        await exec(`../enclave/scripts/virtual-prover.sh ${proofId}`);
-        const endTime = Date.now();
-
-        const proverTime = endTime - startTime;
-        console.log(`- virtual-prover.sh finished in ${proverTime} ms`);
-
-        // Read from bin/proof-proofId.json and bin/public-proofId.json
-        proof = JSON.parse(
-            fs.readFileSync(`bin/proof-${proofId}.json`, "utf8")
-        );
-        proof.curve = "bn128";
-        publicSignals = JSON.parse(
-            fs.readFileSync(`bin/public-${proofId}.json`, "utf8")
-        );
-
-        // Remove the generated files
-        await exec(`rm -rf bin/*-${proofId}.*`);
-
-        proverStatus = ProverStatus.Rapidsnark;
+        const res = await Tile.virtualZKP(inputs, prover);
+        const proverTime = Date.now() - startTime;
+        console.log(`- ${res.proverStatus} finished in ${proverTime} ms`);
+        return res;
     } catch (error) {
         console.error(`- Error: ${error}`);
+        return {
+            proof: undefined,
+            publicSignals: undefined,
+            proverStatus: ProverStatus.Incomplete,
+        };
     }
-
-    if (proverStatus === ProverStatus.Incomplete) {
-        try {
-            // If rapidsnark fails, run snarkjs prover
-            console.log(`- Proving virtual ZKP with snarkjs`);
-            const startTime = Date.now();
-            [proof, publicSignals] = await Tile.virtualZKP(inputs);
-            const endTime = Date.now();
-
-            const proverTime = endTime - startTime;
-            console.log(`- snarkjs finished in ${proverTime} ms`);
-
-            proverStatus = ProverStatus.Snarkjs;
-        } catch (error) {
-            console.error(`- Error: ${error}`);
-            proverStatus = ProverStatus.Incomplete;
-        }
-    }
-
-    return { proof, publicSignals, proverStatus };
 }
 
 /*
@@ -442,43 +608,55 @@ async function virtualZKP(virtTile: Tile, socketId: string) {
  */
 async function sendMoveSignature(
     socket: Socket,
-    uFrom: any,
-    uTo: any,
+    uFrom: TileJSON,
+    uTo: TileJSON,
     blind: string
 ) {
     const sender = idToAddress.get(socket.id);
     if (inRecoveryMode || !sender) {
-        // Cut the connection
-        socket.disconnect();
+        refuse(socket, "getMoveSignature", "Not logged in", true);
         return;
     }
 
     // Players cannot make more than one move per block
     const latestBlock = playerLatestBlock.get(sender);
-    if (
-        latestBlock != undefined &&
-        latestBlock < currentBlockHeight &&
-        uFrom.address == sender
-    ) {
+    if (latestBlock != undefined && latestBlock < currentBlockHeight) {
         const uFromAsTile = Tile.fromJSON(uFrom);
         const hUFrom = uFromAsTile.hash();
         const uToAsTile = Tile.fromJSON(uTo);
         const hUTo = uToAsTile.hash();
 
+        // Checked before anything is read from chain for the proposal
+        const refusal =
+            !b.inBounds(uFromAsTile.loc.r, uFromAsTile.loc.c) ||
+            !b.inBounds(uToAsTile.loc.r, uToAsTile.loc.c)
+                ? MoveRefusal.OutOfBounds
+                : await checkMoveProposal(sender, uFromAsTile, uToAsTile);
+        if (refusal) {
+            refuse(
+                socket,
+                "getMoveSignature",
+                `Proposed move is invalid: ${refusal}`,
+                false,
+                refusal
+            );
+            return;
+        }
+
         // Generate ZKP that attests to valid virtual tile commitment
         const virtTile = Tile.genVirtual(uToAsTile.loc, rand, terrainUtils);
         const { proof, publicSignals, proverStatus } = await virtualZKP(
-            virtTile,
-            socket.id
+            virtTile
         );
 
+        const sigBlock = currentBlockHeight;
         const abiEncoded = encodeAbiParameters(
             [
-                { name: "currentBlockHeight", type: "uint256" },
+                { name: "sigBlock", type: "uint256" },
                 { name: "hUFrom", type: "uint256" },
                 { name: "hUTo", type: "uint256" },
             ],
-            [currentBlockHeight, BigInt(hUFrom), BigInt(hUTo)]
+            [sigBlock, BigInt(hUFrom), BigInt(hUTo)]
         );
         const sig = await walletClient.signMessage({
             message: { raw: keccak256(abiEncoded) },
@@ -487,43 +665,114 @@ async function sendMoveSignature(
         socket.emit(
             "moveSignatureResponse",
             sig,
-            currentBlockHeight.toString(),
+            sigBlock.toString(),
             proof,
             publicSignals,
             proverStatus
         );
 
-        playerLatestBlock.set(sender, currentBlockHeight);
+        playerLatestBlock.set(sender, sigBlock);
+        signedTiles.set(Utils.stringifyLocation(uFromAsTile.loc), {
+            tile: uFromAsTile,
+            sigBlock,
+        });
+        signedTiles.set(Utils.stringifyLocation(uToAsTile.loc), {
+            tile: uToAsTile,
+            sigBlock,
+        });
 
-        await ClaimedTileDAWrapper.saveClaimedTile(uFromAsTile);
-        await ClaimedTileDAWrapper.saveClaimedTile(uToAsTile);
+        await ClaimedTileDAWrapper.saveClaimedTile(uFromAsTile, sigBlock);
+        await ClaimedTileDAWrapper.saveClaimedTile(uToAsTile, sigBlock);
     } else {
-        // Cut the connection
-        socket.disconnect();
+        refuse(
+            socket,
+            "getMoveSignature",
+            "Cannot move more than once per block"
+        );
     }
 }
 
 /*
- * Exposes secrets at location l if a requesting player proves ownership of
- * neighboring tile.
+ * Recompute the proposed move from the enclave's own beliefs and check that
+ * the proposal agrees. A player's previous move may be signed but not yet
+ * finalized, so the tiles signed for it are also accepted as the starting
+ * point. Returns why the proposal was refused, or undefined if it checks out.
  */
-async function decrypt(socket: Socket, l: string) {
-    if (inRecoveryMode || !idToAddress.has(socket.id)) {
-        socket.disconnect();
-        return;
+async function checkMoveProposal(
+    sender: string,
+    uFrom: Tile,
+    uTo: Tile
+): Promise<MoveRefusal | undefined> {
+    const fromTiles = priorTiles(uFrom.loc);
+    const toTiles = priorTiles(uTo.loc);
+
+    // Read the chain once per city rather than once per pair of tiles
+    const currentWaterInterval = await chainState.getCurrentInterval();
+    const cityTroops = new Map<number, number>();
+    for (const t of fromTiles.concat(toTiles)) {
+        if (!cityTroops.has(t.cityId)) {
+            cityTroops.set(
+                t.cityId,
+                await chainState.getCityCenterTroops(t.cityId)
+            );
+        }
     }
 
-    const loc = Utils.unstringifyLocation(l);
-    if (!loc) {
-        socket.disconnect();
+    // No prior tiles means one of the locations is off the board
+    let refusal: MoveRefusal | undefined = MoveRefusal.OutOfBounds;
+    for (const tFrom of fromTiles) {
+        for (const tTo of toTiles) {
+            refusal = b.checkMove(
+                sender,
+                tFrom,
+                tTo,
+                uFrom,
+                uTo,
+                cityTroops.get(tFrom.cityId)!,
+                cityTroops.get(tTo.cityId)!,
+                currentWaterInterval
+            );
+            if (!refusal) {
+                return undefined;
+            }
+        }
+    }
+    return refusal;
+}
+
+/*
+ * States a move could start from at location l: the most recent tile the
+ * enclave signed there if its signature hasn't expired, and the finalized
+ * tile. Empty if l is out of bounds.
+ */
+function priorTiles(l: Location): Tile[] {
+    const tiles: Tile[] = [];
+    const signed = signedTiles.get(Utils.stringifyLocation(l));
+    if (signed && signed.sigBlock + claimedMoveLifeSpan >= currentBlockHeight) {
+        tiles.push(signed.tile);
+    }
+    const finalized = b.getTile(l, rand);
+    if (finalized) {
+        tiles.push(finalized);
+    }
+    return tiles;
+}
+
+/*
+ * Exposes secrets at location loc if a requesting player proves ownership of
+ * neighboring tile.
+ */
+async function decrypt(socket: Socket, loc: Location) {
+    if (inRecoveryMode || !idToAddress.has(socket.id)) {
+        refuse(socket, "decrypt", "Not logged in", true);
         return;
     }
 
     const owner = new Player("", idToAddress.get(socket.id)!);
     if (b.noFog(loc, owner, rand)) {
-        socket.emit("decryptResponse", b.getTile(loc, rand));
+        socket.emit("decryptResponse", b.getTile(loc, rand)!.toJSON());
     } else {
-        socket.emit("decryptResponse", Tile.mystery(loc));
+        socket.emit("decryptResponse", Tile.mystery(loc).toJSON());
     }
 }
 
@@ -541,6 +790,36 @@ function disconnect(socket: Socket) {
     console.log("- Disconnected: ", socket.id);
 }
 
+/*
+ * Fills the terrain cache around each of a player's city tiles. Stops once
+ * the windows would add up to more than the cache holds, since later ones
+ * would only evict earlier ones.
+ */
+function warmTerrain(address: string) {
+    const budget = terrainUtils.cacheStats().capacity;
+    const windowArea = (2 * TERRAIN_WARM_RADIUS + 1) ** 2;
+    let warmed = 0;
+
+    for (const cityId of b.playerCities.get(address) || []) {
+        for (const locString of b.cityTiles.get(cityId) || []) {
+            const loc = Utils.unstringifyLocation(locString);
+            if (!loc) {
+                continue;
+            }
+            if (warmed + windowArea > budget) {
+                return;
+            }
+            terrainUtils.precompute({
+                minRow: loc.r - TERRAIN_WARM_RADIUS,
+                maxRow: loc.r + TERRAIN_WARM_RADIUS,
+                minCol: loc.c - TERRAIN_WARM_RADIUS,
+                maxCol: loc.c + TERRAIN_WARM_RADIUS,
+            });
+            warmed += windowArea;
+        }
+    }
+}
+
 /*
  * Callback function for when a NewSpawnAttempt event is emitted. Event is
  * emitted when a player tries to spawn in, whether or not they can. After
@@ -561,6 +840,7 @@ async function onSpawnAttempt(
     // Update state even if player is not currently connected
     if (success) {
         b.setTile(spawnTile);
+        await ClaimedTileDAWrapper.markFinalized(hSpawn);
     }
 
     // Let player move or try to spawn again
@@ -574,8 +854,10 @@ async function onSpawnAttempt(
 
     // socketID exists -> player is connected
     if (success) {
+        warmTerrain(player);
+
         const visibleLocs = b
-            .getNearbyLocations(spawnTile.loc)
+            .getVisibleLocations(spawnTile.loc, rand)
             .map((loc) => Utils.stringifyLocation(loc));
 
         io.to(socketId).emit("loginResponse", visibleLocs);
@@ -623,17 +905,42 @@ async function onMoveFinalize(hUFrom: string, hUTo: string) {
         updatedLocs.push(uTo.loc);
     }
 
-    b.setTile(uFrom);
-    b.setTile(uTo);
+    const events = [...b.setTile(uFrom), ...b.setTile(uTo)];
+    for (const u of [uFrom, uTo]) {
+        const locString = Utils.stringifyLocation(u.loc);
+        if (signedTiles.get(locString)?.tile.hash() === u.hash()) {
+            signedTiles.delete(locString);
+        }
+    }
+    await ClaimedTileDAWrapper.markFinalized(hUFrom);
+    await ClaimedTileDAWrapper.markFinalized(hUTo);
+
+    if (DEBUG_BOARD_INVARIANTS) {
+        reportInvariantViolations(`move ${hUFrom} -> ${hUTo}`);
+    }
 
     alertPlayers(newOwner, prevOwner, updatedLocs);
+    sendGameEvents(events);
+}
+
+/*
+ * Logs every inconsistency between the Board's tiles and its city indices,
+ * along with the update that was just applied.
+ */
+function reportInvariantViolations(after: string) {
+    const violations = b.checkInvariants();
+    for (const violation of violations) {
+        console.error(
+            `- Board invariant violated after ${after}: ${violation}`
+        );
+    }
 }
 
 /*
  * Helper function for onMoveFinalize. Pings players when locations should be
  * decrypted. For each location in updatedLocs, the previous and new owner
- * decrypt all tiles in the 3x3 region, and nearby players decrypt the tile in
- * updatedLocs.
+ * decrypt every tile visible from it, and players with vision of it decrypt
+ * the tile in updatedLocs.
  */
 async function alertPlayers(
     newOwner: string,
@@ -644,20 +951,21 @@ async function alertPlayers(
 
     for (let loc of updatedLocs) {
         const locString = Utils.stringifyLocation(loc);
-        for (let l of b.getNearbyLocations(loc)) {
+        for (let l of b.getNearbyLocations(loc, b.maxVisionRadius())) {
             const tile = b.getTile(l, rand);
-            if (tile) {
+            if (tile && Board.distance(loc, l) <= b.visionRadius(tile)) {
                 const tileOwner = tile.owner.address;
-                const lString = Utils.stringifyLocation(l);
-
                 if (!alertPlayerMap.has(tileOwner)) {
                     alertPlayerMap.set(tileOwner, new Set<string>());
                 }
                 alertPlayerMap.get(tileOwner)?.add(locString);
-                alertPlayerMap.get(newOwner)?.add(lString);
-                alertPlayerMap.get(prevOwner)?.add(lString);
             }
         }
+        for (let l of b.getVisibleLocations(loc, rand)) {
+            const lString = Utils.stringifyLocation(l);
+            alertPlayerMap.get(newOwner)?.add(lString);
+            alertPlayerMap.get(prevOwner)?.add(lString);
+        }
     }
 
     alertPlayerMap.forEach((tiles: Set<string>, pubkey: string) => {
@@ -668,6 +976,45 @@ async function alertPlayers(
     });
 }
 
+/*
+ * Helper function for onMoveFinalize. Sends each player the events they were
+ * involved in, in the order they happened.
+ */
+function sendGameEvents(events: GameEvent[]) {
+    let playerEvents = new Map<string, GameEvent[]>();
+
+    for (const ev of events) {
+        for (const address of eventRecipients(ev)) {
+            if (!playerEvents.has(address)) {
+                playerEvents.set(address, []);
+            }
+            playerEvents.get(address)?.push(ev);
+        }
+    }
+
+    playerEvents.forEach((evs: GameEvent[], address: string) => {
+        const socketId = addressToId.get(address);
+        if (socketId) {
+            io.to(socketId).emit("gameEvents", evs);
+        }
+    });
+}
+
+/*
+ * Addresses of the players an event concerns.
+ */
+function eventRecipients(ev: GameEvent): string[] {
+    switch (ev.kind) {
+        case GameEventKind.TileCaptured:
+        case GameEventKind.CityCaptured:
+            return [ev.from.address, ev.to.address];
+        case GameEventKind.PlayerEliminated:
+            return [ev.player.address, ev.by.address];
+        case GameEventKind.Reinforcement:
+            return [ev.owner.address];
+    }
+}
+
 /*
  * Computes rand from the AES key. Rand is some randomness the enclave commits
  * to. In recovery mode it is crucial that rand is the same as in the enclave's
@@ -680,6 +1027,178 @@ function setRand() {
     hRand = Utils.poseidonExt([rand]);
 }
 
+/*
+ * Rebuilds the enclave's Board after a crash. All claimed tiles are pulled from
+ * the DA, then finalized spawns and moves after latestBlockSynced, the block of
+ * the restored checkpoint if any, are replayed in the order they were emitted
+ * on chain. Every finalized hash must have a preimage in the DA, otherwise
+ * the tile is reported and skipped. Players can log in again once the Board
+ * has caught up with the chain.
+ */
+async function recoverBoard() {
+    console.log("- Recovering enclave state from DA");
+    const claimedTiles = await ClaimedTileDAWrapper.getAllClaimedTiles();
+
+    const toBlock = await publicClient.getBlockNumber();
+    const logs = await getFinalizationLogs(latestBlockSynced + 1n, toBlock);
+
+    // Replay onto a copy, so a failed attempt leaves b as it was for the next
+    const board = Board.fromSnapshot(b.toSnapshot(), terrainUtils, vision);
+
+    let missingPreimages = new Set<string>();
+    const getPreimage = (h: string): Tile | undefined => {
+        const tile = claimedTiles.get(h);
+        if (!tile) {
+            missingPreimages.add(h);
+            return undefined;
+        }
+        return tile;
+    };
+
+    let nReplayed = 0;
+    for (const log of logs) {
+        if (log.eventName === "NewSpawnAttempt") {
+            if (!log.args.success) {
+                continue;
+            }
+            const hSpawn = log.args.hSpawn.toString();
+            const spawnTile = getPreimage(hSpawn);
+            if (spawnTile) {
+                board.setTile(spawnTile);
+                await ClaimedTileDAWrapper.markFinalized(hSpawn);
+                nReplayed++;
+            }
+        } else if (log.eventName === "NewMove") {
+            const hUFrom = log.args.hUFrom.toString();
+            const hUTo = log.args.hUTo.toString();
+            const uFrom = getPreimage(hUFrom);
+            const uTo = getPreimage(hUTo);
+            if (uFrom && uTo) {
+                board.setTile(uFrom);
+                board.setTile(uTo);
+                await ClaimedTileDAWrapper.markFinalized(hUFrom);
+                await ClaimedTileDAWrapper.markFinalized(hUTo);
+                nReplayed++;
+            }
+        }
+    }
+
+    missingPreimages.forEach((h: string) => {
+        console.error(`- Tile with hash ${h} finalized with no preimage`);
+    });
+
+    b = board;
+    latestBlockSynced = toBlock;
+    inRecoveryMode = false;
+
+    console.log(
+        `- Recovered ${nReplayed} state transitions up to block ${toBlock}`
+    );
+}
+
+/*
+ * Runs recoverBoard(), retrying if the chain or DA can't be reached. Exits if
+ * every attempt fails, rather than staying in recovery mode and refusing every
+ * login.
+ */
+async function recoverBoardOrExit() {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await recoverBoard();
+            return;
+        } catch (error) {
+            console.error(`- Recovery attempt ${attempt} failed: ${error}`);
+            if (attempt >= RECOVERY_ATTEMPTS) {
+                console.error(
+                    "- Could not recover enclave state, exiting. Rerun with pnpm dev:recover once the RPC and DA are reachable."
+                );
+                process.exit(1);
+            }
+            await new Promise((r) => setTimeout(r, RECOVERY_RETRY_MS));
+        }
+    }
+}
+
+/*
+ * Spawn and move logs from fromBlock to toBlock, inclusive, fetched
+ * LOG_BLOCK_RANGE blocks at a time.
+ */
+async function getFinalizationLogs(fromBlock: bigint, toBlock: bigint) {
+    const logs = [];
+    for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+        const end = start + LOG_BLOCK_RANGE - 1n;
+        logs.push(
+            ...(await publicClient.getLogs({
+                address: worldAddress,
+                events: parseAbi([
+                    "event NewSpawnAttempt(address indexed player, uint256 indexed hSpawn, bool indexed success)",
+                    "event NewMove(uint256 indexed hUFrom, uint256 indexed hUTo)",
+                ]),
+                strict: true,
+                fromBlock: start,
+                toBlock: end < toBlock ? end : toBlock,
+            }))
+        );
+    }
+    return logs;
+}
+
+/*
+ * Write the Board as of latestBlockSynced to CHECKPOINT_PATH. It holds every
+ * tile's key, so it is encrypted with the DA key. Written to a temporary file
+ * first so a crash mid-write leaves the previous checkpoint intact.
+ */
+function checkpointBoard() {
+    const checkpoint = {
+        blockNumber: latestBlockSynced.toString(),
+        ...Utils.encrypt(tileEncryptionKey, JSON.stringify(b.toSnapshot())),
+    };
+    try {
+        fs.writeFileSync(`${CHECKPOINT_PATH}.tmp`, JSON.stringify(checkpoint));
+        fs.renameSync(`${CHECKPOINT_PATH}.tmp`, CHECKPOINT_PATH);
+    } catch (error) {
+        console.error("- Error writing board checkpoint: ", error);
+        return;
+    }
+    latestBlockCheckpointed = latestBlockSynced;
+}
+
+function logTerrainCacheStats() {
+    const stats = terrainUtils.cacheStats();
+    console.log(
+        `- Terrain cache: ${stats.size}/${stats.capacity} locations, ${stats.hits} hits, ${stats.misses} misses, ${stats.evictions} evictions`
+    );
+}
+
+/*
+ * Load the Board from CHECKPOINT_PATH if there is a checkpoint written with the
+ * current key. Otherwise the Board is left blank and recovery replays the
+ * whole chain.
+ */
+function restoreCheckpoint() {
+    if (!fs.existsSync(CHECKPOINT_PATH)) {
+        return;
+    }
+    try {
+        const checkpoint = JSON.parse(fs.readFileSync(CHECKPOINT_PATH, "utf8"));
+        const snapshot = JSON.parse(
+            Utils.decrypt(
+                tileEncryptionKey,
+                checkpoint.ciphertext,
+                checkpoint.iv,
+                checkpoint.tag
+            )
+        );
+        b = Board.fromSnapshot(snapshot, terrainUtils, vision);
+        latestBlockSynced = BigInt(checkpoint.blockNumber);
+        latestBlockCheckpointed = latestBlockSynced;
+    } catch (error) {
+        console.error("- Could not restore board checkpoint: ", error);
+        return;
+    }
+    console.log(`- Restored board checkpoint at block ${latestBlockSynced}`);
+}
+
 /*
  * Commit to enclave randomness, derived from AES key for DA.
  */
@@ -694,70 +1213,141 @@ async function setEnclaveRandCommitment(nStates: any) {
 io.on("connection", (socket: Socket) => {
     console.log("- Connected: ", socket.id);
 
+    // Payloads come straight from the client, so every handler parses them
+    // before they reach game logic
     socket.on("challenge", () => {
         socketChallenge(socket);
     });
-    socket.on("login", (sig: string) => {
-        login(socket, sig);
-    });
-    socket.on("getSpawnSignature", async (symb: string, l: string) => {
-        await sendSpawnSignature(socket, symb, l);
-    });
+    socket.on(
+        "login",
+        validated(
+            socket,
+            "login",
+            (sig) => [Schema.hex(sig, "sig")],
+            (sig) => login(socket, sig)
+        )
+    );
+    socket.on(
+        "getSpawnSignature",
+        validated(
+            socket,
+            "getSpawnSignature",
+            (symb, l) => [Schema.symbol(symb), Schema.location(l)],
+            (symb, loc) => sendSpawnSignature(socket, symb, loc)
+        )
+    );
     socket.on(
         "getMoveSignature",
-        async (uFrom: any, uTo: any, blind: string) => {
-            await sendMoveSignature(socket, uFrom, uTo, blind);
-        }
+        validated(
+            socket,
+            "getMoveSignature",
+            (uFrom, uTo, blind) => [
+                Schema.tileJSON(uFrom, "uFrom"),
+                Schema.tileJSON(uTo, "uTo"),
+                Schema.bigUint(blind, "blind"),
+            ],
+            (uFrom, uTo, blind) => sendMoveSignature(socket, uFrom, uTo, blind)
+        )
+    );
+    socket.on(
+        "decrypt",
+        validated(
+            socket,
+            "decrypt",
+            (l) => [Schema.location(l)],
+            (loc) => decrypt(socket, loc)
+        )
     );
-    socket.on("decrypt", async (l: string) => {
-        await decrypt(socket, l);
+    socket.on("handshakeDA", () => {
+        socket.emit("handshakeDAResponse", inRecoveryMode);
     });
     socket.on("disconnecting", () => {
         disconnect(socket);
     });
 });
 
+/*
+ * Deletes claimed tiles whose enclave signature expired before they were
+ * finalized. Only called once all logs up to latestBlockSynced have been
+ * processed, so none of them can still land on chain.
+ */
+async function sweepClaimedTiles() {
+    const nDeleted = await ClaimedTileDAWrapper.deleteStaleClaimedTiles(
+        latestBlockSynced,
+        claimedMoveLifeSpan
+    );
+    latestBlockSwept = latestBlockSynced;
+
+    signedTiles.forEach(({ sigBlock }, locString) => {
+        if (sigBlock + claimedMoveLifeSpan < latestBlockSynced) {
+            signedTiles.delete(locString);
+        }
+    });
+
+    if (nDeleted > 0) {
+        console.log(`- Deleted ${nDeleted} stale claimed tiles from DA`);
+    }
+}
+
 /*
  * Event handler for new blocks. Claimed moves that have been stored for too
- * long should be deleted.
+ * long are deleted.
  */
 publicClient.watchBlockNumber({
     onBlockNumber: async (blockNumber) => {
         currentBlockHeight = blockNumber;
 
-        if (syncMode) {
+        // Recovery replays logs on its own before regular syncing resumes
+        if (syncMode || inRecoveryMode) {
             return;
         }
         syncMode = true;
 
-        const logs = await publicClient.getLogs({
-            address: worldAddress,
-            events: parseAbi([
-                "event NewSpawnAttempt(address indexed player, uint256 indexed hSpawn, bool indexed success)",
-                "event NewMove(uint256 indexed hUFrom, uint256 indexed hUTo)",
-            ]),
-            strict: true,
-            fromBlock: latestBlockSynced + 1n,
-            toBlock: blockNumber,
-        });
+        try {
+            const logs = await publicClient.getLogs({
+                address: worldAddress,
+                events: parseAbi([
+                    "event NewSpawnAttempt(address indexed player, uint256 indexed hSpawn, bool indexed success)",
+                    "event NewMove(uint256 indexed hUFrom, uint256 indexed hUTo)",
+                ]),
+                strict: true,
+                fromBlock: latestBlockSynced + 1n,
+                toBlock: blockNumber,
+            });
 
-        for (const log of logs) {
-            if (log.eventName === "NewSpawnAttempt") {
-                await onSpawnAttempt(
-                    log.args.player,
-                    log.args.hSpawn.toString(),
-                    log.args.success
-                );
-            } else if (log.eventName === "NewMove") {
-                await onMoveFinalize(
-                    log.args.hUFrom.toString(),
-                    log.args.hUTo.toString()
-                );
+            for (const log of logs) {
+                if (log.eventName === "NewSpawnAttempt") {
+                    await onSpawnAttempt(
+                        log.args.player,
+                        log.args.hSpawn.toString(),
+                        log.args.success
+                    );
+                } else if (log.eventName === "NewMove") {
+                    await onMoveFinalize(
+                        log.args.hUFrom.toString(),
+                        log.args.hUTo.toString()
+                    );
+                }
             }
-        }
 
-        syncMode = false;
-        latestBlockSynced = blockNumber;
+            latestBlockSynced = blockNumber;
+
+            if (latestBlockSynced - latestBlockSwept >= claimedMoveLifeSpan) {
+                await sweepClaimedTiles();
+            }
+            if (
+                latestBlockSynced - latestBlockCheckpointed >=
+                CHECKPOINT_INTERVAL
+            ) {
+                checkpointBoard();
+                logTerrainCacheStats();
+            }
+        } catch (error) {
+            // Retried from latestBlockSynced on the next block
+            console.error("- Error syncing block ", blockNumber, ": ", error);
+        } finally {
+            syncMode = false;
+        }
     },
 });
 
@@ -767,9 +1357,18 @@ publicClient.watchBlockNumber({
 server.listen(process.env.ENCLAVE_SERVER_PORT, async () => {
     fs.writeFileSync(`bin/proving_times_${ENCLAVE_STARTUP_TIMESTAMP}.txt`, "");
 
-    b = new Board(terrainUtils);
+    b = new Board(terrainUtils, vision);
     b.printView();
 
+    try {
+        claimedMoveLifeSpan = BigInt(
+            (await nStates.read.getClaimedMoveLifeSpan()) as bigint
+        );
+    } catch (error) {
+        console.error("- Could not read the claimed move lifespan: ", error);
+        process.exit(1);
+    }
+
     if (inRecoveryMode) {
         // Get previous encryption key
         tileEncryptionKey = Buffer.from(
@@ -779,8 +1378,15 @@ server.listen(process.env.ENCLAVE_SERVER_PORT, async () => {
             "hex"
         );
 
+        ClaimedTileDAWrapper.setEncryptionKey(tileEncryptionKey);
+
         // Compute and save rand, hRand from tileEncryptionKey
         setRand();
+
+        // Start from the latest checkpoint, then replay finalized state from
+        // DA before accepting logins
+        restoreCheckpoint();
+        await recoverBoardOrExit();
     } else {
         // Generate and save encryption key
         tileEncryptionKey = Utils.genAESEncKey();
@@ -789,6 +1395,7 @@ server.listen(process.env.ENCLAVE_SERVER_PORT, async () => {
             process.env.ENCRYPTION_KEY_PATH!,
             tileEncryptionKey.toString("hex")
         );
+        ClaimedTileDAWrapper.setEncryptionKey(tileEncryptionKey);
 
         await setEnclaveRandCommitment(nStates);
     }
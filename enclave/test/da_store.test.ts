@@ -0,0 +1,87 @@
+import { assert } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { DARecord, DAStore } from "../DA/da_store";
+import { FileDAStore } from "../DA/file_store";
+import { MemoryDAStore } from "../DA/memory_store";
+
+function record(hash: string, blockNumber: string = "1"): DARecord {
+    return {
+        hash,
+        blockNumber,
+        finalized: false,
+        ciphertext: "ab",
+        iv: "cd",
+        tag: "ef",
+    };
+}
+
+/*
+ * Behavior every DAStore shares. newStore is called once per test.
+ */
+function storeTests(newStore: () => DAStore) {
+    let store: DAStore;
+
+    beforeEach(() => {
+        store = newStore();
+    });
+
+    it("returns the record that was put", async () => {
+        await store.put(record("1"));
+        assert.deepEqual(await store.get("1"), record("1"));
+    });
+
+    it("overwrites a record with the same hash", async () => {
+        await store.put(record("1", "1"));
+        await store.put(record("1", "2"));
+        assert.deepEqual(await store.get("1"), record("1", "2"));
+        assert.lengthOf(await store.scan(), 1);
+    });
+
+    it("returns undefined for a missing hash", async () => {
+        assert.isUndefined(await store.get("1"));
+    });
+
+    it("deletes records", async () => {
+        await store.put(record("1"));
+        await store.delete("1");
+        await store.delete("2");
+        assert.isUndefined(await store.get("1"));
+        assert.isEmpty(await store.scan());
+    });
+}
+
+describe("Unit tests for MemoryDAStore", () => {
+    storeTests(() => new MemoryDAStore());
+});
+
+describe("Unit tests for FileDAStore", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "da-store-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    storeTests(() => new FileDAStore(path.join(dir, "tiles.json")));
+
+    it("reloads records written by a previous instance", async () => {
+        const file = path.join(dir, "tiles.json");
+        await new FileDAStore(file).put(record("1"));
+        assert.deepEqual(await new FileDAStore(file).get("1"), record("1"));
+    });
+
+    it("keeps every record when puts overlap", async () => {
+        const file = path.join(dir, "tiles.json");
+        const store = new FileDAStore(file);
+        await Promise.all(
+            ["1", "2", "3", "4"].map((hash) => store.put(record(hash)))
+        );
+        assert.lengthOf(await new FileDAStore(file).scan(), 4);
+    });
+});
@@ -1,42 +1,301 @@
-// @ts-ignore
-import { groth16 } from "snarkjs";
 import { Tile } from "./Tile";
 import { TerrainUtils } from "./Terrain";
-import { Utils, Location, Groth16Proof } from "./Utils";
+import { Utils, Location, Groth16Proof, MapBounds } from "./Utils";
 import { Player } from "./Player";
+import { ChainStateReader, MoveChainState } from "./ChainState";
+import {
+    Circuit,
+    ProofResult,
+    ProveOptions,
+    Prover,
+    defaultProver,
+} from "./Prover";
+
+/*
+ * Reasons the enclave refuses to sign a proposed move.
+ */
+export enum MoveRefusal {
+    OutOfBounds = "OUT_OF_BOUNDS",
+    NotAdjacent = "NOT_ADJACENT",
+    NotOwner = "NOT_OWNER",
+    StaleInterval = "STALE_INTERVAL",
+    BadMobilization = "BAD_MOBILIZATION",
+    FromMismatch = "FROM_MISMATCH",
+    ToMismatch = "TO_MISMATCH",
+}
+
+/*
+ * Kinds of GameEvent.
+ */
+export enum GameEventKind {
+    TileCaptured = "TILE_CAPTURED",
+    CityCaptured = "CITY_CAPTURED",
+    PlayerEliminated = "PLAYER_ELIMINATED",
+    Reinforcement = "REINFORCEMENT",
+}
+
+/*
+ * Player named in a GameEvent. Carries no secrets, so events can be sent to
+ * other players as is.
+ */
+export type EventPlayer = {
+    symbol: string;
+    address: string;
+};
+
+/*
+ * What a Board update did, as opposed to which tiles it touched. Tiles taken
+ * from another player are TileCaptured, unless they are a city center, in
+ * which case the whole city changes hands in one CityCaptured. Moving troops
+ * onto a tile the player already holds is a Reinforcement, and troops is how
+ * many are there afterwards. Expanding into unowned land is not an event.
+ */
+export type GameEvent =
+    | {
+          kind: GameEventKind.TileCaptured;
+          loc: Location;
+          from: EventPlayer;
+          to: EventPlayer;
+          troops: number;
+      }
+    | {
+          kind: GameEventKind.CityCaptured;
+          loc: Location;
+          cityId: number;
+          from: EventPlayer;
+          to: EventPlayer;
+          nTiles: number;
+      }
+    | {
+          kind: GameEventKind.PlayerEliminated;
+          player: EventPlayer;
+          by: EventPlayer;
+      }
+    | {
+          kind: GameEventKind.Reinforcement;
+          loc: Location;
+          owner: EventPlayer;
+          troops: number;
+      };
+
+/*
+ * How Board.findSpawnSites() searches. Candidates are looked for up to
+ * maxRadius tiles from the preferred location, skipping exclude, e.g. sites
+ * the enclave already refused. Without weights the closest sites are returned.
+ * With weights, up to candidates sites are collected and ranked by the
+ * terrain within scoreRadius of them.
+ */
+export type SpawnOptions = {
+    maxRadius?: number;
+    candidates?: number;
+    weights?: SpawnWeights;
+    scoreRadius?: number;
+    exclude?: Location[];
+};
+
+/*
+ * Value of each nearby tile of a terrain to a spawn site. Negative weights
+ * steer spawns away from a terrain.
+ */
+export type SpawnWeights = {
+    water: number;
+    hill: number;
+    bonusTroops: number;
+};
+
+/*
+ * Spawn location found by Board.findSpawnSites(), with its score.
+ */
+export type SpawnSite = {
+    loc: Location;
+    score: number;
+};
+
+/*
+ * How many tiles away a player sees from a tile they own, by the tile's type.
+ * Vision covers the square of that radius around the tile.
+ */
+export type VisionRadii = {
+    bare: number;
+    city: number;
+    water: number;
+    hill: number;
+};
+
+/*
+ * Restrictions on paths found by Board.findPath(). Water drains troops every
+ * interval, so avoidWater keeps the army off it except at the destination.
+ * knownOnly keeps the path on tiles the board holds unfogged, and defaults to
+ * true. Paths longer than maxSteps moves aren't searched for.
+ */
+export type PathOptions = {
+    avoidWater?: boolean;
+    knownOnly?: boolean;
+    maxSteps?: number;
+};
+
+/*
+ * Input of the move circuit. Tiles are given as Tile.toCircuitInput().
+ */
+export type MoveCircuitInput = {
+    currentWaterInterval: string;
+    fromCityId: string;
+    toCityId: string;
+    ontoSelfOrUnowned: string;
+    numTroopsMoved: string;
+    enemyLoss: string;
+    fromIsCityCenter: string;
+    toIsCityCenter: string;
+    fromIsWaterTile: string;
+    toIsWaterTile: string;
+    takingCity: string;
+    fromCityTroops: string;
+    toCityTroops: string;
+    hTFrom: string;
+    hTTo: string;
+    hUFrom: string;
+    hUTo: string;
+    tFrom: string[];
+    tTo: string[];
+    uFrom: string[];
+    uTo: string[];
+    fromUpdatedTroops: string;
+    toUpdatedTroops: string;
+};
+
+/*
+ * New states of a move and the circuit input proving them, as computed by
+ * Board.planMove().
+ */
+export type MovePlan = {
+    uFrom: Tile;
+    uTo: Tile;
+    circuitInput: MoveCircuitInput;
+};
+
+/*
+ * Rectangle of the board to draw, centered on center. cursor, if set, is drawn
+ * highlighted. A client's board only holds tiles the enclave revealed to it,
+ * so it sets fogUnrevealed to draw every other tile as fog.
+ */
+export type Viewport = {
+    center: Location;
+    width: number;
+    height: number;
+    cursor?: Location;
+    fogUnrevealed?: boolean;
+};
+
+/*
+ * Serialized Board. Owners are listed once and tiles refer to them by index.
+ * Tiles are [r, c, owner, resources, key, cityId, latestUpdateInterval,
+ * tileType], with a null key if keys were redacted.
+ */
+export type BoardSnapshot = {
+    version: number;
+    owners: [string, string][];
+    tiles: [
+        number,
+        number,
+        number,
+        number,
+        string | null,
+        number,
+        number,
+        number
+    ][];
+    playerCities: [string, number[]][];
+    cityTiles: [number, [number, number][]][];
+};
 
 export class Board {
-    static MOVE_WASM: string = "../circuits/move/move.wasm";
-    static MOVE_PROVKEY: string = "../circuits/move/move.zkey";
-    static PERIMETER: number[][] = [-1, 0, 1].flatMap((x) =>
-        [-1, 0, 1].map((y) => [x, y])
-    );
-    static COORDINATE_MAX_VALUE: number = 2 ** 31;
+    static DEFAULT_VISION: VisionRadii = {
+        bare: 1,
+        city: 2,
+        water: 1,
+        hill: 2,
+    };
+    static COORDINATE_MAX_VALUE: number = TerrainUtils.COORDINATE_MAX_VALUE;
+    static MAX_PATH_STEPS: number = 100;
+    static MAX_SPAWN_RADIUS: number = 32;
+    static SPAWN_CANDIDATES: number = 16;
+    static DEFAULT_SPAWN_WEIGHTS: SpawnWeights = {
+        water: -1,
+        hill: -0.5,
+        bonusTroops: 2,
+    };
+    static ORTHOGONAL: number[][] = [
+        [-1, 0],
+        [1, 0],
+        [0, -1],
+        [0, 1],
+    ];
+    static SNAPSHOT_VERSION: number = 1;
+
+    static DEFAULT_VIEWPORT: Viewport = {
+        center: { r: 5, c: 5 },
+        width: 10,
+        height: 10,
+    };
+
+    static RESET: string = "\x1b[0m";
+    static REVERSE: string = "\x1b[7m";
+    static DIM: string = "\x1b[2m";
+    static GRAY: string = "\x1b[90m";
+    static CYAN: string = "\x1b[36m";
+    static YELLOW: string = "\x1b[33m";
+    static WHITE: string = "\x1b[37m";
+
+    /*
+     * Glyph, color and meaning of each kind of tile, as printed under the view
+     * one line per group. S stands in for a player's symbol.
+     */
+    static VIEW_LEGEND: [string, string, string][][] = [
+        [
+            ["[?]", Board.DIM, "fog"],
+            ["[_]", Board.WHITE, "unowned"],
+            ["[+]", Board.YELLOW, "bonus troops"],
+            ["[~]", Board.CYAN, "water"],
+            ["[^]", Board.GRAY, "hill"],
+        ],
+        [
+            ["[S]", "", "owned"],
+            ["{S}", "", "city center"],
+            ["~S~", "", "owned water"],
+        ],
+    ];
 
     t: Map<string, Tile>;
     terrainUtils: TerrainUtils;
+    vision: VisionRadii;
 
     playerCities: Map<string, Set<number>>;
     cityTiles: Map<number, Set<string>>;
 
-    public constructor(terrainUtils: TerrainUtils) {
+    public constructor(
+        terrainUtils: TerrainUtils,
+        vision: VisionRadii = Board.DEFAULT_VISION
+    ) {
         this.t = new Map<string, Tile>();
         this.terrainUtils = terrainUtils;
+        this.vision = vision;
 
         this.playerCities = new Map<string, Set<number>>();
         this.cityTiles = new Map<number, Set<string>>();
     }
 
+    /*
+     * Rows and columns of the map, as configured in terrainUtils.
+     */
+    public getBounds(): MapBounds {
+        return this.terrainUtils.bounds;
+    }
+
     /*
      * Check if a location = (row, col) pair is within the bounds of the board.
      */
     public inBounds(r: number, c: number): boolean {
-        return (
-            r <= Board.COORDINATE_MAX_VALUE &&
-            r >= 0 &&
-            c <= Board.COORDINATE_MAX_VALUE &&
-            c >= 0
-        );
+        return this.terrainUtils.inBounds({ r, c });
     }
 
     /*
@@ -46,6 +305,125 @@ export class Board {
         return this.inBounds(l.r, l.c);
     }
 
+    /*
+     * Serialize the board. Keys are replaced with null if redactKeys is set,
+     * e.g. to share a map without giving away access to its tiles.
+     */
+    public toSnapshot(redactKeys: boolean = false): BoardSnapshot {
+        let owners: [string, string][] = [];
+        let ownerIndex = new Map<string, number>();
+        const indexOf = (pl: Player): number => {
+            const id = `${pl.symbol}:${pl.address}`;
+            let i = ownerIndex.get(id);
+            if (i === undefined) {
+                i = owners.push([pl.symbol, pl.address]) - 1;
+                ownerIndex.set(id, i);
+            }
+            return i;
+        };
+
+        let tiles: BoardSnapshot["tiles"] = [];
+        this.t.forEach((tl: Tile) => {
+            tiles.push([
+                tl.loc.r,
+                tl.loc.c,
+                indexOf(tl.owner),
+                tl.resources,
+                redactKeys ? null : tl.key.toString(),
+                tl.cityId,
+                tl.latestUpdateInterval,
+                tl.tileType,
+            ]);
+        });
+
+        let cityTiles: BoardSnapshot["cityTiles"] = [];
+        this.cityTiles.forEach((locs: Set<string>, cityId: number) => {
+            let parsed: [number, number][] = [];
+            locs.forEach((locString: string) => {
+                const loc = Utils.unstringifyLocation(locString);
+                if (loc) {
+                    parsed.push([loc.r, loc.c]);
+                }
+            });
+            cityTiles.push([cityId, parsed]);
+        });
+
+        return {
+            version: Board.SNAPSHOT_VERSION,
+            owners,
+            tiles,
+            playerCities: Array.from(this.playerCities, ([address, cities]) => [
+                address,
+                Array.from(cities),
+            ]),
+            cityTiles,
+        };
+    }
+
+    /*
+     * Rebuild a board from toSnapshot(). Redacted keys come back as 0. Throws
+     * if the snapshot was written by an incompatible version.
+     */
+    static fromSnapshot(
+        snapshot: BoardSnapshot,
+        terrainUtils: TerrainUtils,
+        vision: VisionRadii = Board.DEFAULT_VISION
+    ): Board {
+        if (snapshot.version !== Board.SNAPSHOT_VERSION) {
+            throw Error(
+                `Unsupported board snapshot version ${snapshot.version}`
+            );
+        }
+
+        // Fogged and unowned tiles share the placeholder players
+        const owners = snapshot.owners.map(([symbol, address]) => {
+            if (address === "" && symbol === Tile.MYSTERY.symbol) {
+                return Tile.MYSTERY;
+            } else if (address === "" && symbol === Tile.UNOWNED.symbol) {
+                return Tile.UNOWNED;
+            }
+            return new Player(symbol, address);
+        });
+
+        let b = new Board(terrainUtils, vision);
+        for (const [
+            r,
+            c,
+            owner,
+            rsrc,
+            key,
+            cityId,
+            interval,
+            tp,
+        ] of snapshot.tiles) {
+            const loc: Location = { r, c };
+            b.t.set(
+                Utils.stringifyLocation(loc),
+                new Tile(
+                    owners[owner],
+                    loc,
+                    rsrc,
+                    key === null ? BigInt(0) : BigInt(key),
+                    cityId,
+                    interval,
+                    tp
+                )
+            );
+        }
+        for (const [address, cities] of snapshot.playerCities) {
+            b.playerCities.set(address, new Set<number>(cities));
+        }
+        for (const [cityId, locs] of snapshot.cityTiles) {
+            b.cityTiles.set(
+                cityId,
+                new Set<string>(
+                    locs.map(([r, c]) => Utils.stringifyLocation({ r, c }))
+                )
+            );
+        }
+        return b;
+    }
+
     /*
      * Populates the board with mystery tiles in a 10x10 grid.
      */
@@ -98,44 +476,119 @@ export class Board {
      * Displays colored gameboard. Local belief of what the gameboard is from
      * the perspective of the client.
      */
-    public printView(): void {
-        for (let r = 0; r < 10; r++) {
-            for (let c = 0; c < 10; c++) {
-                let tl: Tile = this.getTile({ r, c }, BigInt(0));
-                let color;
-                const reset = "\x1b[0m";
-                if (tl.isBare() && tl.resources === 5 && tl.isUnowned()) {
-                    color = "\x1b[33m";
-                    process.stdout.write(color + `[5]` + reset);
-                } else if (tl.isWater()) {
-                    color = "\x1b[36m";
-                    process.stdout.write(color + `[~]` + reset);
-                } else if (tl.isHill()) {
-                    color = "\x1b[90m";
-                    process.stdout.write(color + `[^]` + reset);
-                } else if (tl.owner.symbol === "A") {
-                    color = "\x1b[32m";
-                    process.stdout.write(
-                        color + `[${tl.owner.symbol}]` + reset
-                    );
-                } else if (tl.owner.symbol === "B") {
-                    color = "\x1b[31m";
-                    process.stdout.write(
-                        color + `[${tl.owner.symbol}]` + reset
-                    );
-                } else if (tl.owner.symbol === "C") {
-                    color = "\x1b[44m";
-                    process.stdout.write(
-                        color + `[${tl.owner.symbol}]` + reset
-                    );
-                } else {
-                    color = "\x1b[37m";
-                    process.stdout.write(color + `[_]` + reset);
+    public printView(viewport: Viewport = Board.DEFAULT_VIEWPORT): void {
+        process.stdout.write(this.renderView(viewport));
+        process.stdout.write("---\n");
+    }
+
+    /*
+     * Draws the tiles in viewport followed by a legend of glyphs and of the
+     * players in view. Rows and columns off the board are left blank.
+     */
+    public renderView(viewport: Viewport = Board.DEFAULT_VIEWPORT): string {
+        const top = viewport.center.r - Math.floor(viewport.height / 2);
+        const left = viewport.center.c - Math.floor(viewport.width / 2);
+
+        // Symbols of players in view, by address
+        let players = new Map<string, string>();
+
+        let out = "";
+        for (let r = top; r < top + viewport.height; r++) {
+            for (let c = left; c < left + viewport.width; c++) {
+                if (!this.inBounds(r, c)) {
+                    out += "   ";
+                    continue;
+                }
+
+                const l: Location = { r, c };
+                let tl: Tile | undefined = this.getTile(l, BigInt(0));
+
+                // Terrain is public, everything else has to be revealed. Tiles
+                // the board can't produce are drawn as fog too.
+                if (
+                    tl === undefined ||
+                    (viewport.fogUnrevealed &&
+                        !this.t.has(Utils.stringifyLocation(l)) &&
+                        !tl.isWater() &&
+                        !tl.isHill())
+                ) {
+                    tl = Tile.mystery(l);
+                }
+                if (!tl.isUnowned() && !tl.isMystery()) {
+                    players.set(tl.owner.address, tl.owner.symbol);
                 }
+
+                const isCursor =
+                    viewport.cursor !== undefined &&
+                    viewport.cursor.r === r &&
+                    viewport.cursor.c === c;
+                out += (isCursor ? Board.REVERSE : "") + Board.renderTile(tl);
             }
-            process.stdout.write("\n");
+            out += "\n";
         }
-        process.stdout.write("---\n");
+
+        const { minRow, maxRow, minCol, maxCol } = this.getBounds();
+        const bottom = Math.min(top + viewport.height - 1, maxRow);
+        const right = Math.min(left + viewport.width - 1, maxCol);
+        out += `rows ${Math.max(top, minRow)}-${bottom}, `;
+        out += `cols ${Math.max(left, minCol)}-${right}\n`;
+        for (const group of Board.VIEW_LEGEND) {
+            out += group
+                .map(([glyph, color, label]) => {
+                    return `${color}${glyph}${Board.RESET} ${label}`;
+                })
+                .join("  ");
+            out += "\n";
+        }
+        players.forEach((symbol, address) => {
+            out += `${Board.playerColor(address)}[${symbol}]${Board.RESET} `;
+            out += `${address}\n`;
+        });
+        return out;
+    }
+
+    /*
+     * Three character cell for a tile. Players' tiles are drawn in their
+     * color, bracketed by what kind of tile they are.
+     */
+    static renderTile(tl: Tile): string {
+        if (tl.isMystery()) {
+            return `${Board.DIM}[?]${Board.RESET}`;
+        } else if (tl.isHill()) {
+            return `${Board.GRAY}[^]${Board.RESET}`;
+        } else if (!tl.isUnowned()) {
+            const color = Board.playerColor(tl.owner.address);
+            const symbol = tl.owner.symbol;
+            if (tl.isCityCenter()) {
+                return `${color}{${symbol}}${Board.RESET}`;
+            } else if (tl.isWater()) {
+                return `${color}~${symbol}~${Board.RESET}`;
+            }
+            return `${color}[${symbol}]${Board.RESET}`;
+        } else if (tl.isWater()) {
+            return `${Board.CYAN}[~]${Board.RESET}`;
+        } else if (tl.resources > 0) {
+            return `${Board.YELLOW}[+]${Board.RESET}`;
+        }
+        return `${Board.WHITE}[_]${Board.RESET}`;
+    }
+
+    /*
+     * ANSI 256-color foreground derived from a FNV-1a hash of address, so a
+     * player has the same color for everyone. Channels are kept away from 0 so
+     * no player is drawn in near-black.
+     */
+    static playerColor(address: string): string {
+        let h = 0x811c9dc5;
+        const lower = address.toLowerCase();
+        for (let i = 0; i < lower.length; i++) {
+            h ^= lower.charCodeAt(i);
+            h = Math.imul(h, 0x01000193) >>> 0;
+        }
+        const r = 1 + (h % 5),
+            g = 1 + (Math.floor(h / 5) % 5),
+            b = 1 + (Math.floor(h / 25) % 5);
+        return `\x1b[38;5;${16 + 36 * r + 6 * g + b}m`;
     }
 
     /*
@@ -153,10 +606,67 @@ export class Board {
         return undefined;
     }
 
-    public getNearbyLocations(l: Location): Location[] {
+    /*
+     * Vision radii from VISION_RADIUS_BARE, VISION_RADIUS_CITY,
+     * VISION_RADIUS_WATER and VISION_RADIUS_HILL, falling back to
+     * DEFAULT_VISION for unset values.
+     */
+    static visionFromEnv(env: Record<string, string | undefined>): VisionRadii {
+        const read = (name: string, fallback: number): number =>
+            env[name] ? Number(env[name]) : fallback;
+        return {
+            bare: read("VISION_RADIUS_BARE", Board.DEFAULT_VISION.bare),
+            city: read("VISION_RADIUS_CITY", Board.DEFAULT_VISION.city),
+            water: read("VISION_RADIUS_WATER", Board.DEFAULT_VISION.water),
+            hill: read("VISION_RADIUS_HILL", Board.DEFAULT_VISION.hill),
+        };
+    }
+
+    /*
+     * How far the owner of tl sees from it.
+     */
+    public visionRadius(tl: Tile): number {
+        if (tl.isCityCenter()) {
+            return this.vision.city;
+        } else if (tl.isHill()) {
+            return this.vision.hill;
+        } else if (tl.isWater()) {
+            return this.vision.water;
+        }
+        return this.vision.bare;
+    }
+
+    /*
+     * Largest radius any tile grants.
+     */
+    public maxVisionRadius(): number {
+        return Math.max(
+            this.vision.bare,
+            this.vision.city,
+            this.vision.water,
+            this.vision.hill
+        );
+    }
+
+    /*
+     * Locations the owner of the tile at l sees from it, including l.
+     */
+    public getVisibleLocations(l: Location, r: bigint): Location[] {
+        const tl = this.getTile(l, r);
+        if (!tl) {
+            return [];
+        }
+        return this.getNearbyLocations(l, this.visionRadius(tl));
+    }
+
+    /*
+     * In-bounds locations in the square of the given radius around l,
+     * including l.
+     */
+    public getNearbyLocations(l: Location, radius: number = 1): Location[] {
         let locs: Location[] = [];
-        for (let r = l.r - 1; r <= l.r + 1; r++) {
-            for (let c = l.c - 1; c <= l.c + 1; c++) {
+        for (let r = l.r - radius; r <= l.r + radius; r++) {
+            for (let c = l.c - radius; c <= l.c + radius; c++) {
                 if (this.inBounds(r, c)) {
                     locs.push({ r, c });
                 }
@@ -166,87 +676,374 @@ export class Board {
     }
 
     /*
-     * Set location to new Tile value. Enclave-only func.
+     * Shortest route for an army from one location to another, one orthogonal
+     * step at a time and never onto a hill. Returns the locations in order,
+     * starting with from and ending with to, so consecutive pairs are the
+     * moves to make. Returns undefined if there is no such path.
      */
-    public setTile(tl: Tile) {
-        const oldTile = this.getTile(tl.loc, BigInt(0));
-        const oldOwner = oldTile.owner.address;
-        const newOwner = tl.owner.address;
+    public findPath(
+        from: Location,
+        to: Location,
+        opts: PathOptions = {}
+    ): Location[] | undefined {
+        const knownOnly = opts.knownOnly ?? true;
+        const maxSteps = opts.maxSteps ?? Board.MAX_PATH_STEPS;
+        const toString = Utils.stringifyLocation(to);
 
-        if (!this.isSpawned(tl.owner)) {
-            // Initialize player's data
-            this.playerCities.set(newOwner, new Set<number>().add(tl.cityId));
-            this.cityTiles.set(
-                tl.cityId,
-                new Set<string>().add(Utils.stringifyLocation(tl.loc))
-            );
-        } else {
-            if (oldOwner !== newOwner) {
-                // Some type of capture happened: must update state
-                if (oldTile.isCityCenter()) {
-                    // Change tile ownership
-                    this.cityTiles.get(oldTile.cityId).forEach((locString) => {
-                        const loc = JSON.parse(locString);
-                        if (loc) {
-                            this.getTile(loc, BigInt(0)).owner = tl.owner;
-                        }
-                    });
+        const passable = (l: Location): boolean => {
+            const tl = this.getTile(l, BigInt(0));
+            const lString = Utils.stringifyLocation(l);
+            if (!tl || tl.isHill()) {
+                return false;
+            }
+            if (knownOnly && (!this.t.has(lString) || tl.isMystery())) {
+                return false;
+            }
+            return !opts.avoidWater || !tl.isWater() || lString === toString;
+        };
 
-                    this.playerCities.get(oldOwner)?.delete(tl.cityId);
-                    this.playerCities.get(newOwner)?.add(tl.cityId);
+        if (!this.assertBounds(from) || !passable(to)) {
+            return undefined;
+        }
+        if (Utils.stringifyLocation(from) === toString) {
+            return [from];
+        }
 
-                    // Check if oldOwner lost all cities
-                    const cities = this.playerCities.get(oldOwner);
-                    if (cities && cities.size == 0) {
-                        this.playerCities.delete(oldOwner);
+        // Breadth-first search, remembering where each location was reached
+        // from
+        let prev = new Map<string, Location | null>();
+        prev.set(Utils.stringifyLocation(from), null);
+        let frontier: Location[] = [from];
+        for (let steps = 0; steps < maxSteps && frontier.length > 0; steps++) {
+            let next: Location[] = [];
+            for (const l of frontier) {
+                for (const [dr, dc] of Board.ORTHOGONAL) {
+                    const n: Location = { r: l.r + dr, c: l.c + dc };
+                    const nString = Utils.stringifyLocation(n);
+                    if (prev.has(nString) || !passable(n)) {
+                        continue;
                     }
-                } else {
-                    // Bare/water tile with a new owner
-                    const locString = Utils.stringifyLocation(tl.loc);
-                    this.cityTiles.get(oldTile.cityId)?.delete(locString);
-                    this.cityTiles.get(tl.cityId)?.add(locString);
-                }
-                this.playerCities.delete(oldOwner);
-            } else if (oldTile.isCityCenter()) {
-                // Change tile ownership
-                this.cityTiles.get(oldTile.cityId).forEach((locString) => {
-                    const tile = this.t.get(locString);
-                    if (tile) {
-                        tile.owner = oldTile.owner;
-                        this.t.set(locString, tile);
+                    prev.set(nString, l);
+                    if (nString === toString) {
+                        return Board.tracePath(prev, n);
                     }
-                });
+                    next.push(n);
+                }
+            }
+            frontier = next;
+        }
 
-                this.playerCities.get(oldOwner)?.delete(tl.cityId);
-                this.playerCities.get(newOwner)?.add(tl.cityId);
-            } else {
-                // Bare/water tile with a new owner
-                const locString = Utils.stringifyLocation(tl.loc);
-                this.cityTiles.get(oldTile.cityId)?.delete(locString);
-                this.cityTiles.get(tl.cityId)?.add(locString);
+        return undefined;
+    }
+
+    /*
+     * Follows prev back from l to the start of a search.
+     */
+    private static tracePath(
+        prev: Map<string, Location | null>,
+        l: Location
+    ): Location[] {
+        let path: Location[] = [];
+        let cur: Location | null | undefined = l;
+        while (cur) {
+            path.push(cur);
+            cur = prev.get(Utils.stringifyLocation(cur));
+        }
+        return path.reverse();
+    }
+
+    /*
+     * Spawnable locations around preferred, i.e. where Tile.isSpawnable()
+     * holds for the tile the board has, or the virtual tile if it has none or
+     * it is fogged.
+     * Searches outward one ring of tiles at a time, and returns sites best
+     * first: highest score, then closest to preferred. Empty if none are
+     * found within opts.maxRadius.
+     */
+    public findSpawnSites(
+        preferred: Location,
+        opts: SpawnOptions = {}
+    ): SpawnSite[] {
+        const maxRadius = opts.maxRadius ?? Board.MAX_SPAWN_RADIUS;
+        const wanted = opts.weights
+            ? opts.candidates ?? Board.SPAWN_CANDIDATES
+            : 1;
+        const excluded = new Set<string>(
+            (opts.exclude || []).map((l) => Utils.stringifyLocation(l))
+        );
+
+        let sites: SpawnSite[] = [];
+        for (let d = 0; d <= maxRadius && sites.length < wanted; d++) {
+            for (const l of Board.ring(preferred, d)) {
+                const tl = this.getUnfoggedTile(l);
+                if (
+                    tl &&
+                    tl.isSpawnable() &&
+                    !excluded.has(Utils.stringifyLocation(l))
+                ) {
+                    sites.push({
+                        loc: l,
+                        score: opts.weights
+                            ? this.spawnScore(l, opts.weights, opts.scoreRadius)
+                            : 0,
+                    });
+                }
             }
         }
-        this.t.set(Utils.stringifyLocation(tl.loc), tl);
+
+        // Sites were found in order of distance, and the sort is stable
+        return sites.sort((a, b) => b.score - a.score).slice(0, wanted);
     }
 
     /*
-     * Check if a location is NOT in the FoW for requesting player. Enclave-only
-     * func.
+     * Sum of weights of the tiles within radius of l, not counting l.
      */
-    public noFog(l: Location, reqPlayer: Player, r: bigint): boolean {
-        let foundNeighbor = false;
-        Board.PERIMETER.forEach(([dy, dx]) => {
-            let nr = l.r + dy,
-                nc = l.c + dx;
-            let tl = this.getTile({ r: nr, c: nc }, r);
-            if (
-                tl &&
-                this.playerCities.get(reqPlayer.address)?.has(tl.cityId)
+    private spawnScore(
+        l: Location,
+        weights: SpawnWeights,
+        radius: number = 2
+    ): number {
+        let score = 0;
+        for (const nl of this.getNearbyLocations(l, radius)) {
+            const tl = this.getUnfoggedTile(nl);
+            if (!tl || Board.distance(l, nl) === 0) {
+                continue;
+            }
+            if (tl.isWater()) {
+                score += weights.water;
+            } else if (tl.isHill()) {
+                score += weights.hill;
+            } else if (tl.isUnowned() && tl.resources > 0) {
+                score += weights.bonusTroops;
+            }
+        }
+        return score;
+    }
+
+    /*
+     * Like getTile(), but the virtual tile stands in for fog, so terrain is
+     * known everywhere.
+     */
+    private getUnfoggedTile(l: Location): Tile | undefined {
+        const tl = this.getTile(l, BigInt(0));
+        if (tl && tl.isMystery()) {
+            return Tile.genVirtual(l, BigInt(0), this.terrainUtils);
+        }
+        return tl;
+    }
+
+    /*
+     * Locations exactly d king moves away from l, in bounds or not.
+     */
+    private static ring(l: Location, d: number): Location[] {
+        if (d === 0) {
+            return [l];
+        }
+        let locs: Location[] = [];
+        for (let i = -d; i < d; i++) {
+            locs.push({ r: l.r - d, c: l.c + i });
+            locs.push({ r: l.r + i, c: l.c + d });
+            locs.push({ r: l.r + d, c: l.c - i });
+            locs.push({ r: l.r - i, c: l.c - d });
+        }
+        return locs;
+    }
+
+    /*
+     * Set location to new Tile value, and return the GameEvents this caused.
+     * Enclave-only func.
+     */
+    public setTile(tl: Tile): GameEvent[] {
+        const oldTile = this.getTile(tl.loc, BigInt(0));
+        if (!oldTile) {
+            throw Error("Cannot set a tile off the board.");
+        }
+        const oldOwner = oldTile.owner.address;
+        const newOwner = tl.owner.address;
+        const locString = Utils.stringifyLocation(tl.loc);
+        const from = Board.eventPlayer(oldTile.owner);
+        const to = Board.eventPlayer(tl.owner);
+        let events: GameEvent[] = [];
+
+        if (oldTile.isCityCenter() && oldOwner !== newOwner) {
+            // Capturing a city center captures every tile in the city
+            const cityLocs = this.cityTiles.get(oldTile.cityId);
+            cityLocs?.forEach((cityLoc) => {
+                const cityTile = this.t.get(cityLoc);
+                if (cityTile) {
+                    cityTile.owner = tl.owner;
+                }
+            });
+            events.push({
+                kind: GameEventKind.CityCaptured,
+                loc: tl.loc,
+                cityId: oldTile.cityId,
+                from,
+                to,
+                nTiles: cityLocs?.size ?? 1,
+            });
+            if (this.removePlayerCity(oldOwner, oldTile.cityId)) {
+                events.push({
+                    kind: GameEventKind.PlayerEliminated,
+                    player: from,
+                    by: to,
+                });
+            }
+        } else if (!oldTile.isUnowned() && oldTile.cityId !== tl.cityId) {
+            // Tile changes hands, or moves between a player's cities
+            this.cityTiles.get(oldTile.cityId)?.delete(locString);
+        }
+
+        if (!oldTile.isUnowned() && !tl.isUnowned()) {
+            if (oldOwner !== newOwner && !oldTile.isCityCenter()) {
+                events.push({
+                    kind: GameEventKind.TileCaptured,
+                    loc: tl.loc,
+                    from,
+                    to,
+                    troops: tl.resources,
+                });
+            } else if (
+                oldOwner === newOwner &&
+                tl.resources > oldTile.resources
             ) {
-                foundNeighbor = true;
+                events.push({
+                    kind: GameEventKind.Reinforcement,
+                    loc: tl.loc,
+                    owner: to,
+                    troops: tl.resources,
+                });
             }
+        }
+
+        if (!tl.isUnowned()) {
+            if (tl.isCityCenter()) {
+                // Spawn or capture of a city
+                if (!this.playerCities.has(newOwner)) {
+                    this.playerCities.set(newOwner, new Set<number>());
+                }
+                this.playerCities.get(newOwner)!.add(tl.cityId);
+            }
+            if (!this.cityTiles.has(tl.cityId)) {
+                this.cityTiles.set(tl.cityId, new Set<string>());
+            }
+            this.cityTiles.get(tl.cityId)!.add(locString);
+        }
+
+        this.t.set(locString, tl);
+        return events;
+    }
+
+    /*
+     * Take cityId away from owner. Players without any cities left are no
+     * longer spawned, and true is returned if owner was just eliminated.
+     */
+    private removePlayerCity(owner: string, cityId: number): boolean {
+        const cities = this.playerCities.get(owner);
+        cities?.delete(cityId);
+        if (cities && cities.size == 0) {
+            this.playerCities.delete(owner);
+            return true;
+        }
+        return false;
+    }
+
+    static eventPlayer(pl: Player): EventPlayer {
+        return { symbol: pl.symbol, address: pl.address };
+    }
+
+    /*
+     * Cross-checks t against the playerCities and cityTiles indices. Returns a
+     * description of every violation found, so an empty list means the board
+     * is consistent. Walks the whole board, so only meant for debugging.
+     */
+    public checkInvariants(): string[] {
+        let violations: string[] = [];
+
+        // Every city belongs to exactly one player
+        let cityOwner = new Map<number, string>();
+        this.playerCities.forEach((cities: Set<number>, address: string) => {
+            if (cities.size === 0) {
+                violations.push(`${address} has an empty set of cities`);
+            }
+            cities.forEach((cityId: number) => {
+                const other = cityOwner.get(cityId);
+                if (other !== undefined) {
+                    violations.push(
+                        `City ${cityId} belongs to both ${other} and ${address}`
+                    );
+                }
+                cityOwner.set(cityId, address);
+                if (!this.cityTiles.has(cityId)) {
+                    violations.push(
+                        `City ${cityId} of ${address} has no tiles`
+                    );
+                }
+            });
+        });
+
+        // Every indexed tile is in its city and owned by the city's owner
+        this.cityTiles.forEach((locs: Set<string>, cityId: number) => {
+            const owner = cityOwner.get(cityId);
+            if (owner === undefined) {
+                violations.push(`City ${cityId} does not belong to a player`);
+            }
+            locs.forEach((locString: string) => {
+                const tl = this.t.get(locString);
+                if (!tl) {
+                    violations.push(`City ${cityId} lists empty ${locString}`);
+                } else if (tl.cityId !== cityId) {
+                    violations.push(
+                        `City ${cityId} lists ${locString} of city ${tl.cityId}`
+                    );
+                } else if (owner !== undefined && tl.owner.address !== owner) {
+                    violations.push(
+                        `${locString} in city ${cityId} of ${owner} is owned by ${tl.owner.address}`
+                    );
+                }
+            });
+        });
+
+        // Every owned tile is indexed under its city
+        this.t.forEach((tl: Tile, locString: string) => {
+            if (tl.isUnowned() || tl.isMystery()) {
+                return;
+            }
+            if (!this.cityTiles.get(tl.cityId)?.has(locString)) {
+                violations.push(
+                    `${locString} is not indexed under its city ${tl.cityId}`
+                );
+            }
+        });
+
+        return violations;
+    }
+
+    /*
+     * Check if a location is NOT in the FoW for requesting player, i.e. one of
+     * their tiles has vision of it. Enclave-only func.
+     */
+    public noFog(l: Location, reqPlayer: Player, r: bigint): boolean {
+        const cities = this.playerCities.get(reqPlayer.address);
+        if (!cities) {
+            return false;
+        }
+        return this.getNearbyLocations(l, this.maxVisionRadius()).some((nl) => {
+            const tl = this.getTile(nl, r);
+            return (
+                tl !== undefined &&
+                cities.has(tl.cityId) &&
+                Board.distance(l, nl) <= this.visionRadius(tl)
+            );
         });
-        return foundNeighbor;
+    }
+
+    /*
+     * Number of king moves between two locations, which is how far vision
+     * reaches.
+     */
+    static distance(a: Location, b: Location): number {
+        return Math.max(Math.abs(a.r - b.r), Math.abs(a.c - b.c));
     }
 
     /*
@@ -324,30 +1121,148 @@ export class Board {
     }
 
     /*
-     * Generates state transition, nullifier combo, and ZKP needed to move
-     * troops from one tile to another. Moves all but one troop for development.
-     *
-     * wasmPath is the relative path to move.wasm, and zkeyPath for move.zkey.
-     * The default values for these paths are ../circuits/move/move.(wasm/zkey)
+     * Checks that uFrom and uTo are the states planMove would compute for mover
+     * moving out of tFrom onto tTo, for some number of troops. The interval is
+     * taken from the proposal and must not be ahead of currentWaterInterval.
+     * Returns why the move is invalid, or undefined if it is valid. Keys are
+     * fresh randomness, so they aren't compared.
      */
-    public async moveZKP(
+    public checkMove(
+        mover: string,
+        tFrom: Tile,
+        tTo: Tile,
+        uFrom: Tile,
+        uTo: Tile,
+        fromCityTroops: number,
+        toCityTroops: number,
+        currentWaterInterval: number
+    ): MoveRefusal | undefined {
+        if (
+            !this.inBounds(uFrom.loc.r, uFrom.loc.c) ||
+            !this.inBounds(uTo.loc.r, uTo.loc.c)
+        ) {
+            return MoveRefusal.OutOfBounds;
+        }
+        const dist =
+            Math.abs(uFrom.loc.r - uTo.loc.r) +
+            Math.abs(uFrom.loc.c - uTo.loc.c);
+        if (dist !== 1) {
+            return MoveRefusal.NotAdjacent;
+        }
+        if (tFrom.owner.address !== mover || uFrom.owner.address !== mover) {
+            return MoveRefusal.NotOwner;
+        }
+
+        // Older intervals would undo water attrition
+        const interval = uFrom.latestUpdateInterval;
+        if (
+            interval !== uTo.latestUpdateInterval ||
+            interval > currentWaterInterval ||
+            interval < tFrom.latestUpdateInterval ||
+            interval < tTo.latestUpdateInterval
+        ) {
+            return MoveRefusal.StaleInterval;
+        }
+
+        const fromUpdatedTroops = Board.computeUpdatedTroops(
+            tFrom,
+            fromCityTroops,
+            interval
+        );
+        const toUpdatedTroops = Board.computeUpdatedTroops(
+            tTo,
+            toCityTroops,
+            interval
+        );
+        const nMobilize = fromUpdatedTroops - uFrom.resources;
+        if (nMobilize < 1 || nMobilize > fromUpdatedTroops - 1) {
+            return MoveRefusal.BadMobilization;
+        }
+
+        const expectedFrom = Tile.genOwned(
+            tFrom.owner,
+            tFrom.loc,
+            fromUpdatedTroops - nMobilize,
+            tFrom.cityId,
+            interval,
+            tFrom.tileType
+        );
+        if (!Board.sameState(uFrom, expectedFrom)) {
+            return MoveRefusal.FromMismatch;
+        }
+
+        const expectedTo = Board.computeOntoTile(
+            tTo,
+            tFrom,
+            expectedFrom,
+            toUpdatedTroops,
+            nMobilize,
+            interval
+        );
+        if (!Board.sameState(uTo, expectedTo)) {
+            return MoveRefusal.ToMismatch;
+        }
+
+        return undefined;
+    }
+
+    /*
+     * Whether two tiles agree on everything but their key.
+     */
+    private static sameState(a: Tile, b: Tile): boolean {
+        return (
+            a.owner.address === b.owner.address &&
+            a.owner.symbol === b.owner.symbol &&
+            a.loc.r === b.loc.r &&
+            a.loc.c === b.loc.c &&
+            a.resources === b.resources &&
+            a.cityId === b.cityId &&
+            a.latestUpdateInterval === b.latestUpdateInterval &&
+            a.tileType === b.tileType
+        );
+    }
+
+    /*
+     * Reads the chain values needed to plan a move from from to to.
+     */
+    public async readMoveChainState(
         from: Location,
         to: Location,
-        nStates: any,
-        wasmPath?: string,
-        zkeyPath?: string
-    ): Promise<[Tile, Tile, Promise<any>]> {
-        const tFrom: Tile = this.getTile(from, BigInt(0));
-        const tTo: Tile = this.getTile(to, BigInt(0));
+        chainState: ChainStateReader
+    ): Promise<MoveChainState> {
+        const tFrom = this.getTile(from, BigInt(0));
+        const tTo = this.getTile(to, BigInt(0));
+        if (!tFrom || !tTo) {
+            throw Error("Cannot move off the board.");
+        }
 
-        const currentWaterInterval= Number(await nStates.read.getCurrentInterval());
+        return {
+            currentWaterInterval: await chainState.getCurrentInterval(),
+            fromCityTroops: await chainState.getCityCenterTroops(tFrom.cityId),
+            toCityTroops: await chainState.getCityCenterTroops(tTo.cityId),
+        };
+    }
 
-        const fromCityTroops = await nStates.read.getCityCenterTroops([
-            tFrom.cityId,
-        ]);
-        const toCityTroops = await nStates.read.getCityCenterTroops([
-            tTo.cityId,
-        ]);
+    /*
+     * Computes the state transition of moving nMobilize troops from one tile
+     * to another, and the input the move circuit proves it with. nMobilize must
+     * leave at least one troop behind, and defaults to all but one troop. Reads
+     * nothing but the board and chainState, so it can run without a chain. The
+     * new tiles get fresh keys.
+     */
+    public planMove(
+        from: Location,
+        to: Location,
+        nMobilize: number | undefined,
+        chainState: MoveChainState
+    ): MovePlan {
+        const tFrom = this.getTile(from, BigInt(0));
+        const tTo = this.getTile(to, BigInt(0));
+        if (!tFrom || !tTo) {
+            throw Error("Cannot move off the board.");
+        }
+        const { currentWaterInterval, fromCityTroops, toCityTroops } =
+            chainState;
 
         // Most recent troop counts
         const fromUpdatedTroops = Board.computeUpdatedTroops(
@@ -361,7 +1276,17 @@ export class Board {
             currentWaterInterval
         );
 
-        const nMobilize = fromUpdatedTroops - 1;
+        // At least one troop must stay behind on the from tile
+        const maxMobilize = fromUpdatedTroops - 1;
+        if (nMobilize === undefined) {
+            nMobilize = maxMobilize;
+        }
+        if (!Number.isInteger(nMobilize) || nMobilize < 1) {
+            throw Error("Cannot move without mobilizing at least 1 troop.");
+        }
+        if (nMobilize > maxMobilize) {
+            throw Error(`Cannot mobilize more than ${maxMobilize} troops.`);
+        }
 
         const uFrom: Tile = Tile.genOwned(
             tFrom.owner,
@@ -388,39 +1313,67 @@ export class Board {
         const capturedTile = uTo.owner.address != tTo.owner.address;
         const takingCity = tTo.isCityCenter() && capturedTile ? "1" : "0";
 
-        const wasm = wasmPath || Board.MOVE_WASM;
-        const zkey = zkeyPath || Board.MOVE_PROVKEY;
-
-        const moveZKPPromise = groth16.fullProve(
-            {
-                currentWaterInterval: currentWaterInterval.toString(),
-                fromCityId: tFrom.cityId.toString(),
-                toCityId: tTo.cityId.toString(),
-                ontoSelfOrUnowned,
-                numTroopsMoved: nMobilize.toString(),
-                enemyLoss: enemyLoss.toString(),
-                fromIsCityCenter: tFrom.isCityCenter() ? "1" : "0",
-                toIsCityCenter: tTo.isCityCenter() ? "1" : "0",
-                fromIsWaterTile: tFrom.isWater() ? "1" : "0",
-                toIsWaterTile: tTo.isWater() ? "1" : "0",
-                takingCity,
-                fromCityTroops: fromCityTroops.toString(),
-                toCityTroops: toCityTroops.toString(),
-                hTFrom: tFrom.hash(),
-                hTTo: tTo.hash(),
-                hUFrom: uFrom.hash(),
-                hUTo: uTo.hash(),
-                tFrom: tFrom.toCircuitInput(),
-                tTo: tTo.toCircuitInput(),
-                uFrom: uFrom.toCircuitInput(),
-                uTo: uTo.toCircuitInput(),
-                fromUpdatedTroops: fromUpdatedTroops.toString(),
-                toUpdatedTroops: toUpdatedTroops.toString(),
-            },
-            wasm,
-            zkey
-        );
+        const circuitInput: MoveCircuitInput = {
+            currentWaterInterval: currentWaterInterval.toString(),
+            fromCityId: tFrom.cityId.toString(),
+            toCityId: tTo.cityId.toString(),
+            ontoSelfOrUnowned,
+            numTroopsMoved: nMobilize.toString(),
+            enemyLoss: enemyLoss.toString(),
+            fromIsCityCenter: tFrom.isCityCenter() ? "1" : "0",
+            toIsCityCenter: tTo.isCityCenter() ? "1" : "0",
+            fromIsWaterTile: tFrom.isWater() ? "1" : "0",
+            toIsWaterTile: tTo.isWater() ? "1" : "0",
+            takingCity,
+            fromCityTroops: fromCityTroops.toString(),
+            toCityTroops: toCityTroops.toString(),
+            hTFrom: tFrom.hash(),
+            hTTo: tTo.hash(),
+            hUFrom: uFrom.hash(),
+            hUTo: uTo.hash(),
+            tFrom: tFrom.toCircuitInput(),
+            tTo: tTo.toCircuitInput(),
+            uFrom: uFrom.toCircuitInput(),
+            uTo: uTo.toCircuitInput(),
+            fromUpdatedTroops: fromUpdatedTroops.toString(),
+            toUpdatedTroops: toUpdatedTroops.toString(),
+        };
+
+        return { uFrom, uTo, circuitInput };
+    }
+
+    /*
+     * Proves a planned move with the move circuit, using prover. Proves with
+     * snarkjs over ../circuits by default. opts can cancel the proof and
+     * follow its progress.
+     */
+    static proveMove(
+        plan: MovePlan,
+        prover: Prover = defaultProver,
+        opts?: ProveOptions
+    ): Promise<ProofResult> {
+        return prover.prove(Circuit.Move, plan.circuitInput, opts);
+    }
 
-        return [uFrom, uTo, moveZKPPromise];
+    /*
+     * Generates state transition, nullifier combo, and ZKP needed to move
+     * troops from one tile to another, reading chain values from chainState.
+     * See planMove() for nMobilize and proveMove() for prover and opts.
+     */
+    public async moveZKP(
+        from: Location,
+        to: Location,
+        chainState: ChainStateReader,
+        nMobilize?: number,
+        prover?: Prover,
+        opts?: ProveOptions
+    ): Promise<[Tile, Tile, Promise<ProofResult>]> {
+        const plan = this.planMove(
+            from,
+            to,
+            nMobilize,
+            await this.readMoveChainState(from, to, chainState)
+        );
+        return [plan.uFrom, plan.uTo, Board.proveMove(plan, prover, opts)];
     }
 }
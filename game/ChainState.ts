@@ -0,0 +1,59 @@
+/*
+ * On-chain values the move rules depend on. Implemented over the game
+ * contract by ContractChainState, and in memory by MemoryChainState so moves
+ * can be planned and simulated without a chain.
+ */
+export interface ChainStateReader {
+    getCurrentInterval(): Promise<number>;
+    getCityCenterTroops(cityId: number): Promise<number>;
+}
+
+/*
+ * Chain values a single move is computed from, read up front so that planning
+ * the move itself needs no RPC.
+ */
+export type MoveChainState = {
+    currentWaterInterval: number;
+    fromCityTroops: number;
+    toCityTroops: number;
+};
+
+/*
+ * Reads from a viem contract instance of the game's world.
+ */
+export class ContractChainState implements ChainStateReader {
+    nStates: any;
+
+    constructor(nStates: any) {
+        this.nStates = nStates;
+    }
+
+    public async getCurrentInterval(): Promise<number> {
+        return Number(await this.nStates.read.getCurrentInterval());
+    }
+
+    public async getCityCenterTroops(cityId: number): Promise<number> {
+        return Number(await this.nStates.read.getCityCenterTroops([cityId]));
+    }
+}
+
+/*
+ * Chain state held in memory. Cities that were never set have no troops.
+ */
+export class MemoryChainState implements ChainStateReader {
+    currentInterval: number;
+    cityCenterTroops: Map<number, number>;
+
+    constructor(currentInterval: number = 0) {
+        this.currentInterval = currentInterval;
+        this.cityCenterTroops = new Map<number, number>();
+    }
+
+    public async getCurrentInterval(): Promise<number> {
+        return this.currentInterval;
+    }
+
+    public async getCityCenterTroops(cityId: number): Promise<number> {
+        return this.cityCenterTroops.get(cityId) || 0;
+    }
+}
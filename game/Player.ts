@@ -6,33 +6,73 @@ import { Utils, Location } from "./Utils";
 import poseidonPerm from "./poseidonPerm";
 
 export class Player {
+    /*
+     * Message a wallet signs to derive its blinding factor. Changing it changes
+     * every player's blind, so spawn commitments made before would not open.
+     */
+    static BLIND_MESSAGE: string =
+        "Sign to derive your N-States blinding factor. This does not send a transaction.";
+
     symbol: string;
     address: string;
-    blind: bigint;
-    hBlind: string;
 
-    constructor(symb: string, address: string) {
+    /*
+     * Blinding factor hiding the player's spawn location, and its hash. Only
+     * set for the player's own Player, see fromWallet().
+     */
+    blind?: bigint;
+    hBlind?: string;
+
+    constructor(symb: string, address: string, blind?: bigint) {
         this.symbol = symb;
         this.address = address;
 
-        this.sampleBlind();
+        if (blind !== undefined) {
+            this.setBlind(blind);
+        }
     }
 
-    public sampleBlind() {
-        this.blind = Utils.genRandomInt();
+    /*
+     * Player whose blind is derived from the wallet's signature over
+     * BLIND_MESSAGE. Wallet signatures are deterministic, so the same wallet
+     * gets the same blind on every run and can reopen earlier commitments.
+     */
+    static async fromWallet(
+        symbol: string,
+        address: string,
+        signMessage: (message: string) => Promise<string>
+    ): Promise<Player> {
+        const sig = await signMessage(Player.BLIND_MESSAGE);
+        return new Player(symbol, address, Utils.hashToField(sig));
+    }
+
+    public setBlind(blind: bigint) {
+        this.blind = blind;
         this.hBlind = poseidonPerm([BigInt(0), this.blind])[0].toString();
     }
 
+    /*
+     * Use a fresh random blind, e.g. for throwaway players in tests.
+     */
+    public sampleBlind() {
+        this.setBlind(Utils.genRandomInt());
+    }
+
+    /*
+     * The player's blind. Throws an error if it was never set.
+     */
+    public getBlind(): bigint {
+        if (this.blind === undefined) {
+            throw Error(`Player ${this.symbol} has no blinding factor.`);
+        }
+        return this.blind;
+    }
+
     public hBlindLoc(l: Location): string {
         return Utils.poseidonExt([
-            this.blind,
+            this.getBlind(),
             BigInt(l.r),
             BigInt(l.c),
         ]).toString();
     }
-
-    public async commitHBlind(spawnLoc: Location, nStates: any) {
-        const tx = await nStates.commitToSpawn(this.hBlindLoc(spawnLoc));
-        await tx.wait();
-    }
 }
@@ -0,0 +1,687 @@
+// @ts-ignore
+import { groth16, zKey } from "snarkjs";
+import { execFile as execFileCb } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { Worker } from "worker_threads";
+import { Utils, Groth16Proof, ProverStatus } from "./Utils";
+
+const execFile = promisify(execFileCb);
+
+/*
+ * Circuits the game proves. Each one's artifacts are in
+ * `${circuitsDir}/${circuit}/`.
+ */
+export enum Circuit {
+    Move = "move",
+    Spawn = "spawn",
+    Virtual = "virtual",
+}
+
+/*
+ * Names of each circuit's public inputs, in the order of its public signals.
+ * Must match the main component of ${circuit}.circom.
+ */
+export const CIRCUIT_PUBLIC_INPUTS: Record<Circuit, string[]> = {
+    [Circuit.Move]: [
+        "currentWaterInterval",
+        "fromCityId",
+        "toCityId",
+        "ontoSelfOrUnowned",
+        "numTroopsMoved",
+        "enemyLoss",
+        "fromIsCityCenter",
+        "toIsCityCenter",
+        "fromIsWaterTile",
+        "toIsWaterTile",
+        "takingCity",
+        "fromCityTroops",
+        "toCityTroops",
+        "hTFrom",
+        "hTTo",
+        "hUFrom",
+        "hUTo",
+    ],
+    [Circuit.Spawn]: [
+        "canSpawn",
+        "spawnCityId",
+        "hPrevTile",
+        "hSpawnTile",
+        "hBlindLoc",
+    ],
+    [Circuit.Virtual]: ["hRand", "hVirt"],
+};
+
+/*
+ * A proof, its public signals and the backend that produced them.
+ */
+export type ProofResult = {
+    proof: Groth16Proof;
+    publicSignals: string[];
+    proverStatus: ProverStatus;
+};
+
+/*
+ * How far along a proof is. step is the name of the done-th of total steps,
+ * and the proof is finished once done equals total.
+ */
+export type ProveProgress = {
+    step: string;
+    done: number;
+    total: number;
+};
+
+/*
+ * Aborting signal cancels the proof, which then rejects. onProgress is called
+ * as the proof goes through its steps.
+ */
+export type ProveOptions = {
+    signal?: AbortSignal;
+    onProgress?: (progress: ProveProgress) => void;
+};
+
+/*
+ * Steps of a snarkjs proof, named after the messages snarkjs logs as it
+ * starts each one.
+ */
+const SNARKJS_STEPS: string[] = [
+    "Calculating witness",
+    "Reading Wtns",
+    "Reading Coeffs",
+    "Building ABC",
+    "Join ABC",
+    "Reading A Points",
+    "Reading B1 Points",
+    "Reading B2 Points",
+    "Reading C Points",
+    "Reading H Points",
+    "Done",
+];
+
+const RAPIDSNARK_STEPS: string[] = ["Calculating witness", "Proving", "Done"];
+
+/*
+ * Report step of steps to opts.onProgress. Steps that aren't listed are
+ * ignored.
+ */
+function reportStep(opts: ProveOptions, steps: string[], step: string) {
+    const i = steps.indexOf(step);
+    if (opts.onProgress && i !== -1) {
+        opts.onProgress({ step, done: i + 1, total: steps.length });
+    }
+}
+
+/*
+ * Throws an error if the proof was canceled.
+ */
+function checkCanceled(opts: ProveOptions) {
+    if (opts.signal?.aborted) {
+        throw Error("Proof canceled");
+    }
+}
+
+/*
+ * Groth16 proving backend. prove() rejects if the backend fails or the proof
+ * is canceled.
+ */
+export interface Prover {
+    prove(
+        circuit: Circuit,
+        inputs: object,
+        opts?: ProveOptions
+    ): Promise<ProofResult>;
+    verify(
+        circuit: Circuit,
+        proof: Groth16Proof,
+        publicSignals: string[]
+    ): Promise<boolean>;
+}
+
+/*
+ * Proves in process with snarkjs from ${circuit}.wasm and ${circuit}.zkey.
+ */
+export class SnarkjsProver implements Prover {
+    circuitsDir: string;
+
+    // Verification keys exported from each circuit's zkey, see verify()
+    private vkeys: Map<Circuit, Promise<object>> = new Map<
+        Circuit,
+        Promise<object>
+    >();
+
+    constructor(circuitsDir: string = "../circuits") {
+        this.circuitsDir = circuitsDir;
+    }
+
+    public artifact(circuit: Circuit, ext: string): string {
+        return path.join(this.circuitsDir, circuit, `${circuit}.${ext}`);
+    }
+
+    /*
+     * Proves on the calling thread, which is blocked for most of the proof.
+     * Cancellation takes effect at the start of the next step.
+     */
+    async prove(
+        circuit: Circuit,
+        inputs: object,
+        opts: ProveOptions = {}
+    ): Promise<ProofResult> {
+        // snarkjs calls the logger between steps, where throwing aborts it
+        const logger = {
+            debug: (message: string) => {
+                checkCanceled(opts);
+                reportStep(opts, SNARKJS_STEPS, message);
+            },
+            info: () => {},
+            warn: () => {},
+            error: () => {},
+        };
+
+        logger.debug("Calculating witness");
+        const { proof, publicSignals } = await groth16.fullProve(
+            inputs,
+            this.artifact(circuit, "wasm"),
+            this.artifact(circuit, "zkey"),
+            logger
+        );
+        logger.debug("Done");
+        return { proof, publicSignals, proverStatus: ProverStatus.Snarkjs };
+    }
+
+    /*
+     * Verifies against the key exported from the circuit's zkey. snarkjs keeps
+     * its curve's threads running afterwards, so a script that verifies must
+     * exit explicitly.
+     */
+    async verify(
+        circuit: Circuit,
+        proof: Groth16Proof,
+        publicSignals: string[]
+    ): Promise<boolean> {
+        let vkey = this.vkeys.get(circuit);
+        if (!vkey) {
+            vkey = zKey.exportVerificationKey(
+                this.artifact(circuit, "zkey")
+            ) as Promise<object>;
+            this.vkeys.set(circuit, vkey);
+        }
+        return groth16.verify(await vkey, publicSignals, proof);
+    }
+}
+
+/*
+ * Proves with the native ${circuit}-witness-generator and ${circuit}-prover
+ * (rapidsnark) binaries built by circuits/scripts/dev-virtual.sh. Inputs,
+ * witnesses and proofs pass through files in workDir, which are removed
+ * after each proof. Verifies with snarkjs.
+ */
+export class RapidsnarkProver implements Prover {
+    circuitsDir: string;
+    workDir: string;
+    verifier: SnarkjsProver;
+
+    // Makes the names of files of concurrent proofs unique
+    private nProofs: number = 0;
+
+    constructor(circuitsDir: string = "../circuits", workDir: string = "bin") {
+        this.circuitsDir = circuitsDir;
+        this.workDir = workDir;
+        this.verifier = new SnarkjsProver(circuitsDir);
+    }
+
+    async prove(
+        circuit: Circuit,
+        inputs: object,
+        opts: ProveOptions = {}
+    ): Promise<ProofResult> {
+        const id = `${circuit}-${process.pid}-${this.nProofs++}`;
+        const file = (name: string) =>
+            path.join(this.workDir, `${name}-${id}.json`);
+        const witness = path.join(this.workDir, `witness-${id}.wtns`);
+        const binary = (name: string) =>
+            path.join(this.circuitsDir, circuit, `${circuit}-${name}`);
+
+        try {
+            checkCanceled(opts);
+            reportStep(opts, RAPIDSNARK_STEPS, "Calculating witness");
+            fs.writeFileSync(file("input"), JSON.stringify(inputs));
+            await execFile(
+                binary("witness-generator"),
+                [file("input"), witness],
+                { signal: opts.signal }
+            );
+
+            reportStep(opts, RAPIDSNARK_STEPS, "Proving");
+            await execFile(
+                binary("prover"),
+                [
+                    this.verifier.artifact(circuit, "zkey"),
+                    witness,
+                    file("proof"),
+                    file("public"),
+                ],
+                { signal: opts.signal }
+            );
+
+            const proof = JSON.parse(fs.readFileSync(file("proof"), "utf8"));
+            proof.curve = "bn128";
+            const publicSignals = JSON.parse(
+                fs.readFileSync(file("public"), "utf8")
+            );
+            reportStep(opts, RAPIDSNARK_STEPS, "Done");
+            return {
+                proof,
+                publicSignals,
+                proverStatus: ProverStatus.Rapidsnark,
+            };
+        } finally {
+            for (const f of [
+                file("input"),
+                witness,
+                file("proof"),
+                file("public"),
+            ]) {
+                fs.rmSync(f, { force: true });
+            }
+        }
+    }
+
+    async verify(
+        circuit: Circuit,
+        proof: Groth16Proof,
+        publicSignals: string[]
+    ): Promise<boolean> {
+        return this.verifier.verify(circuit, proof, publicSignals);
+    }
+}
+
+/*
+ * Instant, deterministic stand-in for tests and local development. Public
+ * signals are the circuit's public inputs as given, and the proof is derived
+ * from them, so the same inputs always give the same proof. Nothing about the
+ * private inputs is checked, and the proofs are rejected by the on-chain
+ * verifiers.
+ */
+export class MockProver implements Prover {
+    async prove(
+        circuit: Circuit,
+        inputs: object,
+        opts: ProveOptions = {}
+    ): Promise<ProofResult> {
+        checkCanceled(opts);
+        const values = inputs as Record<string, unknown>;
+        const publicSignals = CIRCUIT_PUBLIC_INPUTS[circuit].map((name) => {
+            if (values[name] === undefined) {
+                throw Error(`Missing public input ${name} for ${circuit}`);
+            }
+            return String(values[name]);
+        });
+        return {
+            proof: MockProver.proofOf(circuit, publicSignals),
+            publicSignals,
+            proverStatus: ProverStatus.Mock,
+        };
+    }
+
+    async verify(
+        circuit: Circuit,
+        proof: Groth16Proof,
+        publicSignals: string[]
+    ): Promise<boolean> {
+        return (
+            JSON.stringify(proof) ===
+            JSON.stringify(MockProver.proofOf(circuit, publicSignals))
+        );
+    }
+
+    /*
+     * Proof whose points are hashes of the circuit and its public signals.
+     */
+    private static proofOf(
+        circuit: Circuit,
+        publicSignals: string[]
+    ): Groth16Proof {
+        const seed = `${circuit}:${publicSignals.join(",")}`;
+        const f = (label: string) =>
+            Utils.hashToField(`${seed}:${label}`).toString();
+        return {
+            pi_a: [f("a0"), f("a1"), "1"],
+            pi_b: [
+                [f("b00"), f("b01")],
+                [f("b10"), f("b11")],
+                ["1", "0"],
+            ],
+            pi_c: [f("c0"), f("c1"), "1"],
+            protocol: "groth16",
+            curve: "bn128",
+        };
+    }
+}
+
+/*
+ * Source of the threads WorkerProver proves in. Plain CommonJS, as workers
+ * don't go through the TypeScript loader. Only the steps in workerData.steps
+ * are posted back as progress.
+ */
+const SNARKJS_WORKER_SOURCE: string = `
+const { parentPort, workerData } = require("worker_threads");
+const { groth16 } = require(workerData.snarkjs);
+
+parentPort.on("message", async ({ id, inputs, wasm, zkey }) => {
+    const logger = {
+        debug: (step) => {
+            if (workerData.steps.includes(step)) {
+                parentPort.postMessage({ id, step });
+            }
+        },
+        info: () => {},
+        warn: () => {},
+        error: () => {},
+    };
+    try {
+        logger.debug("Calculating witness");
+        const { proof, publicSignals } = await groth16.fullProve(
+            inputs, wasm, zkey, logger
+        );
+        parentPort.postMessage({ id, proof, publicSignals });
+    } catch (error) {
+        parentPort.postMessage({ id, error: String(error) });
+    }
+});
+`;
+
+/*
+ * A proof waiting for or running on a WorkerProver thread.
+ */
+type WorkerTask = {
+    id: number;
+    circuit: Circuit;
+    inputs: object;
+    opts: ProveOptions;
+    resolve: (result: ProofResult) => void;
+    reject: (reason: Error) => void;
+    worker?: Worker;
+};
+
+/*
+ * Proves with snarkjs on a pool of at most size worker threads, so proving
+ * doesn't block the caller's event loop. Proofs wait in order for a free
+ * thread. Canceling a running proof terminates its thread, so it stops right
+ * away. Threads are started on demand and don't keep the process alive.
+ * Threads load snarkjs from snarkjsPath, relative to the working directory
+ * like circuitsDir.
+ */
+export class WorkerProver implements Prover {
+    size: number;
+    prover: SnarkjsProver;
+    snarkjsPath: string;
+
+    private queue: WorkerTask[] = [];
+    private running: Map<number, WorkerTask> = new Map<number, WorkerTask>();
+    private idle: Worker[] = [];
+    private workers: Set<Worker> = new Set<Worker>();
+    private nTasks: number = 0;
+
+    constructor(
+        circuitsDir: string = "../circuits",
+        size: number = 1,
+        snarkjsPath: string = "../game/node_modules/snarkjs"
+    ) {
+        if (size < 1) {
+            throw Error("WorkerProver needs at least one thread");
+        }
+        this.size = size;
+        this.prover = new SnarkjsProver(circuitsDir);
+        this.snarkjsPath = path.resolve(snarkjsPath);
+    }
+
+    prove(
+        circuit: Circuit,
+        inputs: object,
+        opts: ProveOptions = {}
+    ): Promise<ProofResult> {
+        return new Promise<ProofResult>((resolve, reject) => {
+            checkCanceled(opts);
+            const onAbort = () => this.cancel(task);
+            const task: WorkerTask = {
+                id: this.nTasks++,
+                circuit,
+                inputs,
+                opts,
+                resolve: (result) => {
+                    opts.signal?.removeEventListener("abort", onAbort);
+                    resolve(result);
+                },
+                reject: (reason) => {
+                    opts.signal?.removeEventListener("abort", onAbort);
+                    reject(reason);
+                },
+            };
+            opts.signal?.addEventListener("abort", onAbort, { once: true });
+            this.queue.push(task);
+            this.dispatch();
+        });
+    }
+
+    async verify(
+        circuit: Circuit,
+        proof: Groth16Proof,
+        publicSignals: string[]
+    ): Promise<boolean> {
+        return this.prover.verify(circuit, proof, publicSignals);
+    }
+
+    /*
+     * Terminate every thread and reject the proofs that didn't finish.
+     */
+    public async close() {
+        const tasks = this.queue.concat(Array.from(this.running.values()));
+        const workers = Array.from(this.workers);
+        this.queue = [];
+        this.running.clear();
+        this.idle = [];
+        this.workers.clear();
+
+        for (const task of tasks) {
+            task.reject(Error("Prover closed"));
+        }
+        await Promise.all(workers.map((w) => w.terminate()));
+    }
+
+    /*
+     * Start queued proofs on idle threads, or new ones while under size.
+     */
+    private dispatch() {
+        while (
+            this.queue.length > 0 &&
+            (this.idle.length > 0 || this.workers.size < this.size)
+        ) {
+            const task = this.queue.shift()!;
+            task.worker = this.idle.pop() || this.spawn();
+            this.running.set(task.id, task);
+            task.worker.postMessage({
+                id: task.id,
+                inputs: task.inputs,
+                wasm: this.prover.artifact(task.circuit, "wasm"),
+                zkey: this.prover.artifact(task.circuit, "zkey"),
+            });
+        }
+    }
+
+    private spawn(): Worker {
+        const worker = new Worker(SNARKJS_WORKER_SOURCE, {
+            eval: true,
+            workerData: {
+                snarkjs: this.snarkjsPath,
+                steps: SNARKJS_STEPS,
+            },
+        });
+        worker.unref();
+        this.workers.add(worker);
+
+        worker.on("message", (msg) => {
+            const task = this.running.get(msg.id);
+            if (!task) {
+                return;
+            }
+            if (msg.step) {
+                reportStep(task.opts, SNARKJS_STEPS, msg.step);
+                return;
+            }
+
+            this.running.delete(msg.id);
+            this.idle.push(worker);
+            if (msg.error) {
+                task.reject(Error(msg.error));
+            } else {
+                reportStep(task.opts, SNARKJS_STEPS, "Done");
+                task.resolve({
+                    proof: msg.proof,
+                    publicSignals: msg.publicSignals,
+                    proverStatus: ProverStatus.Snarkjs,
+                });
+            }
+            this.dispatch();
+        });
+
+        // Thread died, e.g. out of memory. Its proof fails and a new thread
+        // takes its place. An error is followed by an exit, which then finds
+        // nothing left to fail.
+        worker.on("error", (error) => this.fail(worker, error));
+        worker.on("exit", (code) =>
+            this.fail(worker, Error(`Prover thread exited with code ${code}`))
+        );
+
+        return worker;
+    }
+
+    /*
+     * Drop a queued proof, or terminate the thread running it.
+     */
+    private cancel(task: WorkerTask) {
+        const canceled = Error("Proof canceled");
+        if (this.queue.includes(task)) {
+            this.queue = this.queue.filter((t) => t !== task);
+            task.reject(canceled);
+        } else if (this.running.get(task.id) === task) {
+            this.running.delete(task.id);
+            task.reject(canceled);
+            this.retire(task.worker!);
+            task.worker!.terminate();
+            this.dispatch();
+        }
+    }
+
+    /*
+     * Reject the proof running on a dead thread and replace the thread.
+     */
+    private fail(worker: Worker, error: Error) {
+        for (const task of Array.from(this.running.values())) {
+            if (task.worker === worker) {
+                this.running.delete(task.id);
+                task.reject(error);
+            }
+        }
+        this.retire(worker);
+        this.dispatch();
+    }
+
+    /*
+     * Stop handing proofs to a thread. Safe to call more than once, as a
+     * canceled thread still emits exit.
+     */
+    private retire(worker: Worker) {
+        if (!this.workers.delete(worker)) {
+            return;
+        }
+        worker.removeAllListeners("message");
+        this.idle = this.idle.filter((w) => w !== worker);
+    }
+}
+
+/*
+ * Tries each prover in order until one succeeds. The ProofResult names the
+ * backend that produced the proof. Verifies with the first prover.
+ */
+export class FallbackProver implements Prover {
+    provers: Prover[];
+
+    constructor(provers: Prover[]) {
+        if (provers.length === 0) {
+            throw Error("FallbackProver needs at least one prover");
+        }
+        this.provers = provers;
+    }
+
+    async prove(
+        circuit: Circuit,
+        inputs: object,
+        opts: ProveOptions = {}
+    ): Promise<ProofResult> {
+        let lastError: unknown;
+        for (const prover of this.provers) {
+            try {
+                return await prover.prove(circuit, inputs, opts);
+            } catch (error) {
+                // A canceled proof isn't retried with the next prover
+                checkCanceled(opts);
+                console.error(`- Error: ${error}`);
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    async verify(
+        circuit: Circuit,
+        proof: Groth16Proof,
+        publicSignals: string[]
+    ): Promise<boolean> {
+        return this.provers[0].verify(circuit, proof, publicSignals);
+    }
+}
+
+/*
+ * Backends a prover can be configured with through PROVER.
+ */
+export enum ProverBackend {
+    Snarkjs = "snarkjs",
+    Rapidsnark = "rapidsnark",
+    Mock = "mock",
+}
+
+/*
+ * Instantiates the prover for a comma separated list of backends, e.g.
+ * "rapidsnark,snarkjs" falls back to snarkjs when rapidsnark fails.
+ * circuitsDir defaults to ../circuits, and workDir, where rapidsnark keeps its
+ * files, to bin. snarkjs proves on a pool of workers threads, or on the
+ * calling thread if workers is 0.
+ */
+export function createProver(
+    backends: string,
+    circuitsDir?: string,
+    workDir?: string,
+    workers: number = 1
+): Prover {
+    const provers = backends.split(",").map((backend): Prover => {
+        switch (backend.trim()) {
+            case ProverBackend.Snarkjs:
+                return workers > 0
+                    ? new WorkerProver(circuitsDir, workers)
+                    : new SnarkjsProver(circuitsDir);
+            case ProverBackend.Rapidsnark:
+                return new RapidsnarkProver(circuitsDir, workDir);
+            case ProverBackend.Mock:
+                return new MockProver();
+            default:
+                throw Error(`Unknown prover backend: ${backend}`);
+        }
+    });
+    return provers.length === 1 ? provers[0] : new FallbackProver(provers);
+}
+
+/*
+ * Prover the game uses when none is given.
+ */
+export const defaultProver: Prover = new SnarkjsProver();
@@ -0,0 +1,180 @@
+import { Groth16Proof, Location } from "./Utils";
+
+/*
+ * Wire format of a Tile, as produced by Tile.toJSON(). Every value is a
+ * string so that keys and other field elements survive JSON.
+ */
+export type TileJSON = {
+    symbol: string;
+    address: string;
+    r: string;
+    c: string;
+    resources: string;
+    key: string;
+    cityId: string;
+    latestUpdateInterval: string;
+    tileType: string;
+};
+
+/*
+ * Runtime checks for payloads that cross the socket between client and
+ * enclave. Each parser returns its input typed if it is well-formed, and
+ * throws an Error naming the offending field otherwise.
+ */
+export class Schema {
+    static TILE_TYPES: string[] = ["0", "1", "2", "3"];
+
+    private static UINT_REGEX: RegExp = /^(0|[1-9][0-9]*)$/;
+    private static HEX_REGEX: RegExp = /^0x[0-9a-fA-F]*$/;
+    private static ADDRESS_REGEX: RegExp = /^0x[0-9a-fA-F]{40}$/;
+
+    /*
+     * Location serialized with Utils.stringifyLocation().
+     */
+    static location(l: unknown, field: string = "location"): Location {
+        const s = Schema.string(l, field);
+
+        let obj: unknown;
+        try {
+            obj = JSON.parse(s);
+        } catch (error) {
+            throw Error(`${field} is not valid JSON`);
+        }
+        if (!Schema.isRecord(obj)) {
+            throw Error(`${field} must be an object`);
+        }
+
+        return {
+            r: Schema.uint(obj.r, `${field}.r`),
+            c: Schema.uint(obj.c, `${field}.c`),
+        };
+    }
+
+    static tileJSON(t: unknown, field: string = "tile"): TileJSON {
+        if (!Schema.isRecord(t)) {
+            throw Error(`${field} must be an object`);
+        }
+
+        const address = Schema.string(t.address, `${field}.address`);
+        if (address !== "" && !Schema.ADDRESS_REGEX.test(address)) {
+            throw Error(`${field}.address must be empty or an address`);
+        }
+
+        const tileType = Schema.string(t.tileType, `${field}.tileType`);
+        if (!Schema.TILE_TYPES.includes(tileType)) {
+            throw Error(`${field}.tileType is not a tile type`);
+        }
+
+        Schema.uint(t.r, `${field}.r`);
+        Schema.uint(t.c, `${field}.c`);
+        Schema.uint(t.resources, `${field}.resources`);
+        Schema.uint(t.cityId, `${field}.cityId`);
+        Schema.uint(t.latestUpdateInterval, `${field}.latestUpdateInterval`);
+        Schema.bigUint(t.key, `${field}.key`);
+
+        return {
+            symbol: Schema.symbol(t.symbol, `${field}.symbol`),
+            address,
+            r: t.r as string,
+            c: t.c as string,
+            resources: t.resources as string,
+            key: t.key as string,
+            cityId: t.cityId as string,
+            latestUpdateInterval: t.latestUpdateInterval as string,
+            tileType,
+        };
+    }
+
+    static groth16Proof(p: unknown, field: string = "proof"): Groth16Proof {
+        if (!Schema.isRecord(p)) {
+            throw Error(`${field} must be an object`);
+        }
+
+        const point = (v: unknown, n: number, f: string): string[] => {
+            if (!Array.isArray(v) || v.length !== n) {
+                throw Error(`${f} must have ${n} elements`);
+            }
+            return v.map((x, i) => Schema.bigUint(x, `${f}[${i}]`));
+        };
+
+        if (!Array.isArray(p.pi_b) || p.pi_b.length !== 3) {
+            throw Error(`${field}.pi_b must have 3 elements`);
+        }
+        const pi_b = p.pi_b.map((v, i) => point(v, 2, `${field}.pi_b[${i}]`));
+
+        return {
+            pi_a: point(p.pi_a, 3, `${field}.pi_a`) as [string, string, string],
+            pi_b: pi_b as [
+                [string, string],
+                [string, string],
+                [string, string]
+            ],
+            pi_c: point(p.pi_c, 3, `${field}.pi_c`) as [string, string, string],
+            protocol: Schema.string(p.protocol, `${field}.protocol`),
+            curve: Schema.string(p.curve, `${field}.curve`),
+        };
+    }
+
+    static publicSignals(
+        s: unknown,
+        field: string = "publicSignals"
+    ): string[] {
+        if (!Array.isArray(s)) {
+            throw Error(`${field} must be an array`);
+        }
+        return s.map((x, i) => Schema.bigUint(x, `${field}[${i}]`));
+    }
+
+    /*
+     * Player symbols are drawn on the board, so they are a single character.
+     */
+    static symbol(s: unknown, field: string = "symbol"): string {
+        const symbol = Schema.string(s, field);
+        if (Array.from(symbol).length !== 1) {
+            throw Error(`${field} must be a single character`);
+        }
+        return symbol;
+    }
+
+    static hex(h: unknown, field: string): string {
+        const hex = Schema.string(h, field);
+        if (!Schema.HEX_REGEX.test(hex)) {
+            throw Error(`${field} must be a hex string`);
+        }
+        return hex;
+    }
+
+    /*
+     * Decimal string of an unsigned integer that may not fit in a number,
+     * e.g. a blinding factor or a tile key.
+     */
+    static bigUint(n: unknown, field: string): string {
+        const s = Schema.string(n, field);
+        if (!Schema.UINT_REGEX.test(s)) {
+            throw Error(`${field} must be an unsigned integer`);
+        }
+        return s;
+    }
+
+    /*
+     * Decimal string of an unsigned integer that fits in a number.
+     */
+    static uint(n: unknown, field: string): number {
+        const v = Number(Schema.bigUint(n, field));
+        if (!Number.isSafeInteger(v)) {
+            throw Error(`${field} is too large`);
+        }
+        return v;
+    }
+
+    static string(s: unknown, field: string): string {
+        if (typeof s !== "string") {
+            throw Error(`${field} must be a string`);
+        }
+        return s;
+    }
+
+    private static isRecord(o: unknown): o is Record<string, unknown> {
+        return typeof o === "object" && o !== null && !Array.isArray(o);
+    }
+}
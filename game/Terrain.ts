@@ -1,8 +1,55 @@
 import { perlin } from "@darkforest_eth/hashing";
-import { Terrain, Location } from "./Utils";
+import { Terrain, Location, MapBounds } from "./Utils";
+
+/*
+ * Counters of the terrain cache since it was created.
+ */
+export type TerrainCacheStats = {
+    size: number;
+    capacity: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+};
+
+/*
+ * Number of locations of each terrain in a region. spawnable counts the
+ * locations the isSpawnable given to TerrainUtils.census() accepts.
+ */
+export type TerrainCensus = {
+    tiles: number;
+    bare: number;
+    water: number;
+    hill: number;
+    bonusTroops: number;
+    spawnable: number;
+};
 
 export class TerrainUtils {
+    static COORDINATE_MAX_VALUE: number = 2 ** 31;
+    static DEFAULT_CACHE_CAPACITY: number = 100000;
+
+    /*
+     * Every location with non-negative coordinates, i.e. an unbounded game.
+     */
+    static QUADRANT: MapBounds = {
+        minRow: 0,
+        maxRow: TerrainUtils.COORDINATE_MAX_VALUE,
+        minCol: 0,
+        maxCol: TerrainUtils.COORDINATE_MAX_VALUE,
+    };
+
+    /*
+     * Terrain of the most recently used locations, least recently used first.
+     * Holds at most cacheCapacity entries.
+     */
     terrainMemo: Map<string, Terrain>;
+    cacheCapacity: number;
+    private hits: number = 0;
+    private misses: number = 0;
+    private evictions: number = 0;
+
+    bounds: MapBounds;
     perlinKey: number;
     perlinScale: number;
     perlinThresholdBonusTroops: number;
@@ -14,9 +61,17 @@ export class TerrainUtils {
         perlinScale: number,
         perlinThresholdBonusTroops: number,
         perlinThresholdHill: number,
-        perlinThresholdWater: number
+        perlinThresholdWater: number,
+        bounds: MapBounds = TerrainUtils.QUADRANT,
+        cacheCapacity: number = TerrainUtils.DEFAULT_CACHE_CAPACITY
     ) {
+        TerrainUtils.checkBounds(bounds);
+        if (!Number.isInteger(cacheCapacity) || cacheCapacity < 1) {
+            throw Error("Terrain cache capacity must be a positive integer");
+        }
+        this.bounds = bounds;
         this.terrainMemo = new Map<string, Terrain>();
+        this.cacheCapacity = cacheCapacity;
         this.perlinKey = perlinKey;
         this.perlinScale = perlinScale;
         this.perlinThresholdBonusTroops = perlinThresholdBonusTroops;
@@ -24,16 +79,154 @@ export class TerrainUtils {
         this.perlinThresholdWater = perlinThresholdWater;
     }
 
+    /*
+     * Map bounds from MAP_MIN_ROW, MAP_MAX_ROW, MAP_MIN_COL and MAP_MAX_COL.
+     * Unset values fall back to QUADRANT, so setting only the maximums gives
+     * a bounded arena with its corner at the origin.
+     */
+    static boundsFromEnv(env: Record<string, string | undefined>): MapBounds {
+        const read = (name: string, fallback: number): number =>
+            env[name] ? Number(env[name]) : fallback;
+        return {
+            minRow: read("MAP_MIN_ROW", TerrainUtils.QUADRANT.minRow),
+            maxRow: read("MAP_MAX_ROW", TerrainUtils.QUADRANT.maxRow),
+            minCol: read("MAP_MIN_COL", TerrainUtils.QUADRANT.minCol),
+            maxCol: read("MAP_MAX_COL", TerrainUtils.QUADRANT.maxCol),
+        };
+    }
+
+    /*
+     * Throws an error unless bounds are integers describing a non-empty
+     * rectangle within the coordinates circuits accept.
+     */
+    static checkBounds(bounds: MapBounds) {
+        const { minRow, maxRow, minCol, maxCol } = bounds;
+        for (const v of [minRow, maxRow, minCol, maxCol]) {
+            if (
+                !Number.isInteger(v) ||
+                v < 0 ||
+                v > TerrainUtils.COORDINATE_MAX_VALUE
+            ) {
+                throw Error(
+                    `Map bounds must be integers from 0 to ${TerrainUtils.COORDINATE_MAX_VALUE}`
+                );
+            }
+        }
+        if (minRow > maxRow || minCol > maxCol) {
+            throw Error("Map bounds must not be empty");
+        }
+    }
+
+    public inBounds(l: Location): boolean {
+        return (
+            l.r >= this.bounds.minRow &&
+            l.r <= this.bounds.maxRow &&
+            l.c >= this.bounds.minCol &&
+            l.c <= this.bounds.maxCol
+        );
+    }
+
     static getKey(loc: Location) {
         return `${loc.r},${loc.c}`;
     }
 
+    public cacheStats(): TerrainCacheStats {
+        return {
+            size: this.terrainMemo.size,
+            capacity: this.cacheCapacity,
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+        };
+    }
+
+    /*
+     * Computes the terrain of every in-bounds location in rect ahead of time,
+     * e.g. the area around active players. Only the last cacheCapacity
+     * locations stay cached, so larger rects are refused rather than evicting
+     * their own first rows. Returns the number of locations that weren't
+     * cached yet.
+     */
+    public precompute(rect: MapBounds): number {
+        const minRow = Math.max(rect.minRow, this.bounds.minRow);
+        const maxRow = Math.min(rect.maxRow, this.bounds.maxRow);
+        const minCol = Math.max(rect.minCol, this.bounds.minCol);
+        const maxCol = Math.min(rect.maxCol, this.bounds.maxCol);
+
+        const area =
+            Math.max(0, maxRow - minRow + 1) * Math.max(0, maxCol - minCol + 1);
+        if (area > this.cacheCapacity) {
+            throw Error(
+                `Can't precompute ${area} locations with a terrain cache of ${this.cacheCapacity}`
+            );
+        }
+
+        const missesBefore = this.misses;
+        for (let r = minRow; r <= maxRow; r++) {
+            for (let c = minCol; c <= maxCol; c++) {
+                this.getTerrainAtLoc({ r, c });
+            }
+        }
+        return this.misses - missesBefore;
+    }
+
+    /*
+     * Counts the terrain of every in-bounds location in rect, and the ones
+     * isSpawnable accepts. Tiles aren't known here, so the caller decides what
+     * a spawnable location is.
+     */
+    public census(
+        rect: MapBounds,
+        isSpawnable: (loc: Location) => boolean
+    ): TerrainCensus {
+        const minRow = Math.max(rect.minRow, this.bounds.minRow);
+        const maxRow = Math.min(rect.maxRow, this.bounds.maxRow);
+        const minCol = Math.max(rect.minCol, this.bounds.minCol);
+        const maxCol = Math.min(rect.maxCol, this.bounds.maxCol);
+
+        let census: TerrainCensus = {
+            tiles: 0,
+            bare: 0,
+            water: 0,
+            hill: 0,
+            bonusTroops: 0,
+            spawnable: 0,
+        };
+        for (let r = minRow; r <= maxRow; r++) {
+            for (let c = minCol; c <= maxCol; c++) {
+                census.tiles++;
+                if (isSpawnable({ r, c })) {
+                    census.spawnable++;
+                }
+                switch (this.getTerrainAtLoc({ r, c })) {
+                    case Terrain.WATER:
+                        census.water++;
+                        break;
+                    case Terrain.HILL:
+                        census.hill++;
+                        break;
+                    case Terrain.BONUS_TROOPS:
+                        census.bonusTroops++;
+                        break;
+                    default:
+                        census.bare++;
+                }
+            }
+        }
+        return census;
+    }
+
     public getTerrainAtLoc = (loc: Location) => {
         const key = TerrainUtils.getKey(loc);
         const cached = this.terrainMemo.get(key);
         if (cached !== undefined) {
+            // Move to the back of the eviction order
+            this.terrainMemo.delete(key);
+            this.terrainMemo.set(key, cached);
+            this.hits++;
             return cached;
         }
+        this.misses++;
         const perlinValue = perlin(
             { x: loc.r, y: loc.c },
             {
@@ -56,6 +249,11 @@ export class TerrainUtils {
             terrain = Terrain.BARE;
         }
         this.terrainMemo.set(key, terrain);
+        if (this.terrainMemo.size > this.cacheCapacity) {
+            const oldest = this.terrainMemo.keys().next().value as string;
+            this.terrainMemo.delete(oldest);
+            this.evictions++;
+        }
         return terrain;
     };
 }
@@ -1,19 +1,19 @@
-// @ts-ignore
-import { groth16 } from "snarkjs";
 import { Player } from "./Player";
-import { Utils, Location, Groth16Proof, Terrain } from "./Utils";
+import {
+    Circuit,
+    ProofResult,
+    ProveOptions,
+    Prover,
+    defaultProver,
+} from "./Prover";
+import { Utils, Location, Terrain } from "./Utils";
 import { TerrainUtils } from "./Terrain";
+import { TileJSON } from "./Schema";
 
 export class Tile {
     static UNOWNED: Player = new Player("_", "");
     static MYSTERY: Player = new Player("?", "");
 
-    static SPAWN_WASM: string = "../circuits/spawn/spawn.wasm";
-    static SPAWN_PROVKEY: string = "../circuits/spawn/spawn.zkey";
-
-    static VIRT_WASM: string = "../circuits/virtual/virtual.wasm";
-    static VIRT_PROVKEY: string = "../circuits/virtual/virtual.zkey";
-
     // If cityId = 0 then the tile is considered unowned
     static UNOWNED_ID: number = 0;
 
@@ -84,7 +84,7 @@ export class Tile {
     /*
      * Convert to JSON object with all values as strings.
      */
-    toJSON(): object {
+    toJSON(): TileJSON {
         return {
             symbol: this.owner.symbol,
             address: this.owner.address,
@@ -151,56 +151,43 @@ export class Tile {
      * Generates a ZKP that attests to the faithful computation of a virtual
      * tile given some committed randomness. Requester of this ZKP also provides
      * a blinding factor for location so they can use it in their client-side
-     * ZKP. Uses snarkjs Groth16 fullProve.
+     * ZKP.
      */
-    static async virtualZKP(inputs: object): Promise<[Groth16Proof, any]> {
-        const { proof, publicSignals } = await groth16.fullProve(
-            inputs,
-            Tile.VIRT_WASM,
-            Tile.VIRT_PROVKEY
-        );
-        return [proof, publicSignals];
+    static virtualZKP(
+        inputs: object,
+        prover: Prover = defaultProver
+    ): Promise<ProofResult> {
+        return prover.prove(Circuit.Virtual, inputs);
     }
 
     /*
-     * Proves the spawn zkp.
-     *
-     * wasmPath is the relative path to spawn.wasm, and zkeyPath for spawn.zkey.
-     * The default values for these paths are 
-     * ../circuits/spawn/spawn.(wasm/zkey)
+     * Proves the spawn zkp with prover, snarkjs over ../circuits by default.
+     * opts can cancel the proof and follow its progress.
      */
-    static async spawnZKP(
+    static spawnZKP(
         player: Player,
         prevTile: Tile,
         spawnTile: Tile,
-        wasmPath?: string,
-        zkeyPath?: string
-    ) {
-        const wasm = wasmPath || Tile.SPAWN_WASM;
-        const zkey = zkeyPath || Tile.SPAWN_PROVKEY;
-
-        const { proof, publicSignals } = await groth16.fullProve(
-            {
-                canSpawn: prevTile.isSpawnable() ? "1" : "0",
-                spawnCityId: spawnTile.cityId.toString(),
-                hPrevTile: prevTile.hash(),
-                hSpawnTile: spawnTile.hash(),
-                hBlindLoc: player.hBlindLoc(spawnTile.loc),
-                prevTile: prevTile.toCircuitInput(),
-                spawnTile: spawnTile.toCircuitInput(),
-                blind: player.blind.toString(),
-            },
-            wasm,
-            zkey
-        );
-
-        return [proof, publicSignals];
+        prover: Prover = defaultProver,
+        opts?: ProveOptions
+    ): Promise<ProofResult> {
+        const inputs = {
+            canSpawn: prevTile.isSpawnable() ? "1" : "0",
+            spawnCityId: spawnTile.cityId.toString(),
+            hPrevTile: prevTile.hash(),
+            hSpawnTile: spawnTile.hash(),
+            hBlindLoc: player.hBlindLoc(spawnTile.loc),
+            prevTile: prevTile.toCircuitInput(),
+            spawnTile: spawnTile.toCircuitInput(),
+            blind: player.getBlind().toString(),
+        };
+        return prover.prove(Circuit.Spawn, inputs, opts);
     }
 
     /*
      * Convert JSON object to Tile.
      */
-    static fromJSON(obj: any): Tile {
+    static fromJSON(obj: TileJSON): Tile {
         return new Tile(
             new Player(obj.symbol, obj.address),
             { r: Number(obj.r), c: Number(obj.c) },
@@ -241,6 +228,18 @@ export class Tile {
         l: Location,
         r: bigint,
         terrainUtils: TerrainUtils
+    ): Tile {
+        return Tile.virtualWithKey(l, Tile.proceduralSalt(l, r), terrainUtils);
+    }
+
+    /*
+     * Virtual tile at l with the given access key. Hashing the key is most of
+     * the cost of genVirtual(), so code that only looks at terrain can pass 0.
+     */
+    static virtualWithKey(
+        l: Location,
+        key: bigint,
+        terrainUtils: TerrainUtils
     ): Tile {
         let terrainValue = terrainUtils.getTerrainAtLoc(l);
         let terrain;
@@ -252,29 +251,13 @@ export class Tile {
                 terrain = Tile.HILL_TILE;
                 break;
             case Terrain.BONUS_TROOPS:
-                return new Tile(
-                    Tile.UNOWNED,
-                    l,
-                    5,
-                    Tile.proceduralSalt(l, r),
-                    0,
-                    0,
-                    Tile.BARE_TILE
-                );
+                return new Tile(Tile.UNOWNED, l, 5, key, 0, 0, Tile.BARE_TILE);
             default:
                 terrain = Tile.BARE_TILE;
                 break;
         }
 
-        return new Tile(
-            Tile.UNOWNED,
-            l,
-            0,
-            Tile.proceduralSalt(l, r),
-            0,
-            0,
-            terrain
-        );
+        return new Tile(Tile.UNOWNED, l, 0, key, 0, 0, terrain);
     }
 
     /*
@@ -12,6 +12,16 @@ export type Location = {
     c: number;
 };
 
+/*
+ * Inclusive ranges of the rows and columns on a game's map.
+ */
+export type MapBounds = {
+    minRow: number;
+    maxRow: number;
+    minCol: number;
+    maxCol: number;
+};
+
 export type Groth16Proof = {
     pi_a: [string, string, string];
     pi_b: [[string, string], [string, string], [string, string]];
@@ -37,12 +47,13 @@ export enum Terrain {
 }
 
 /*
- * Used in virtualZKP(). Rapidsnark will run first. If that fails, snarkjs will
- * run. If both provers fail, then proof and pubSignals will be empty.
+ * Prover backend that produced a proof, see Prover.ts. Incomplete if every
+ * configured backend failed, in which case proof and pubSignals are empty.
  */
 export enum ProverStatus {
     Rapidsnark = "Rapidsnark",
     Snarkjs = "Snarkjs",
+    Mock = "Mock",
     Incomplete = "Incomplete",
 }
 
@@ -58,6 +69,10 @@ export const dummyTerrainGenerator = (location: Location) => {
 };
 
 export class Utils {
+    static SNARK_FIELD_SIZE: bigint = BigInt(
+        "21888242871839275222246405745257275088548364400416034343698204186575808495617"
+    );
+
     /*
      * Stringify a location object. Converts BigInt values to strings.
      */
@@ -199,6 +214,14 @@ export class Utils {
         return [spawnInputs, spawnProof];
     }
 
+    /*
+     * Deterministically maps data to a field element by hashing it.
+     */
+    static hashToField(data: string): bigint {
+        const digest = crypto.createHash("sha256").update(data).digest("hex");
+        return BigInt(`0x${digest}`) % Utils.SNARK_FIELD_SIZE;
+    }
+
     /*
      * Wrapper for genRandomSalt();
      */
@@ -218,11 +241,31 @@ export class Utils {
      * with the IV used and the authTag.
      */
     static encryptTile(encKey: Buffer, tile: any) {
+        return Utils.encrypt(encKey, JSON.stringify(tile.toJSON()));
+    }
+
+    /*
+     * Decrypts ciphertext outputted by encryptTile back into a Tile object.
+     */
+    static decryptTile(
+        decKey: Buffer,
+        ciphertext: string,
+        iv: string,
+        tag: string
+    ): any {
+        return JSON.parse(Utils.decrypt(decKey, ciphertext, iv, tag));
+    }
+
+    /*
+     * Encrypt a string with AES-256-GCM cipher. Returns the ciphertext, along
+     * with the IV used and the authTag.
+     */
+    static encrypt(encKey: Buffer, plaintext: string) {
         const iv = crypto.randomBytes(16);
         const cipher = crypto.createCipheriv("aes-256-gcm", encKey, iv);
         return {
             ciphertext: Buffer.concat([
-                cipher.update(JSON.stringify(tile.toJSON())),
+                cipher.update(plaintext),
                 cipher.final(),
             ]).toString("hex"),
             iv: iv.toString("hex"),
@@ -231,23 +274,21 @@ export class Utils {
     }
 
     /*
-     * Decrypts ciphertext outputted by encryptTile back into a Tile object.
+     * Decrypts ciphertext outputted by encrypt. Throws if authentication fails.
      */
-    static decryptTile(
+    static decrypt(
         decKey: Buffer,
         ciphertext: string,
         iv: string,
         tag: string
-    ): any {
+    ): string {
         const ivBuffer = Buffer.from(iv, "hex");
         let decipher = crypto.createDecipheriv("aes-256-gcm", decKey, ivBuffer);
         decipher.setAuthTag(Buffer.from(tag, "hex"));
 
-        const tileString = Buffer.concat([
+        return Buffer.concat([
             decipher.update(Buffer.from(ciphertext, "hex")),
             decipher.final(),
         ]).toString();
-
-        return JSON.parse(tileString);
     }
 }
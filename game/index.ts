@@ -3,3 +3,6 @@ export * from "./Player";
 export * from "./Tile";
 export * from "./Utils";
 export * from "./Terrain";
+export * from "./Schema";
+export * from "./ChainState";
+export * from "./Prover";